@@ -0,0 +1,115 @@
+// Benchmark for the compiled keyword matcher against the legacy per-post RegExp loop.
+// Usage: npm run bench:matcher -- [keywordCount] [titleCount] [rounds]
+import { performance } from 'perf_hooks';
+import { compileKeywordRule, parseKeywordRule } from '../src/keywordRules';
+import { compileKeywordMatcher } from '../src/matcher';
+
+const keywordCount = parseInt(process.argv[2] || '500', 10);
+const titleCount = parseInt(process.argv[3] || '5000', 10);
+const rounds = parseInt(process.argv[4] || '5', 10);
+
+// Small deterministic PRNG so runs are comparable
+let seed = 42;
+function random(): number {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+}
+
+function pick<T>(items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+function randomWord(): string {
+    const letters = 'abcdefghijklmnopqrstuvwxyz';
+    const length = 3 + Math.floor(random() * 8);
+    let word = '';
+    for (let i = 0; i < length; i++) {
+        word += letters[Math.floor(random() * letters.length)];
+    }
+    return word;
+}
+
+const vocabulary = Array.from({ length: 5000 }, randomWord);
+
+function buildKeywords(count: number): string[] {
+    const keywords = new Set<string>();
+    while (keywords.size < count) {
+        const roll = random();
+        if (roll < 0.85) {
+            keywords.add(pick(vocabulary));
+        } else if (roll < 0.93) {
+            keywords.add(`${pick(vocabulary)} ${pick(vocabulary)}`);
+        } else if (roll < 0.97) {
+            keywords.add(`${pick(vocabulary).slice(0, 4)}*`);
+        } else {
+            keywords.add(`/${pick(vocabulary).slice(0, 3)}(${pick(vocabulary).slice(0, 2)}|${pick(vocabulary).slice(0, 2)})/`);
+        }
+    }
+    return Array.from(keywords);
+}
+
+function buildTitles(count: number): string[] {
+    return Array.from({ length: count }, () => {
+        const words = Array.from({ length: 6 + Math.floor(random() * 14) }, () => pick(vocabulary));
+        const title = words.join(' ');
+        return random() < 0.5 ? title.charAt(0).toUpperCase() + title.slice(1) + '?' : title;
+    });
+}
+
+// Equivalent of the previous findMatchingKeyword: a fresh RegExp per keyword per title
+function legacyMatch(keywords: string[], text: string): string[] {
+    const matches: string[] = [];
+    for (const keyword of keywords) {
+        const regex = compileKeywordRule(parseKeywordRule(keyword));
+        if (regex && regex.test(text)) {
+            matches.push(keyword);
+        }
+    }
+    return matches;
+}
+
+function time(label: string, fn: () => number): number {
+    const samples: number[] = [];
+    let matched = 0;
+    for (let round = 0; round < rounds; round++) {
+        const start = performance.now();
+        matched = fn();
+        samples.push(performance.now() - start);
+    }
+    samples.sort((a, b) => a - b);
+    const median = samples[Math.floor(samples.length / 2)];
+    console.log(`${label.padEnd(22)} median ${median.toFixed(1).padStart(8)} ms  (${matched} titles matched)`);
+    return median;
+}
+
+const keywords = buildKeywords(keywordCount);
+const titles = buildTitles(titleCount);
+
+console.log(`Keywords: ${keywords.length}, titles: ${titles.length}, rounds: ${rounds}\n`);
+
+let matcher = compileKeywordMatcher(keywords);
+time('compile matcher', () => {
+    matcher = compileKeywordMatcher(keywords);
+    return 0;
+});
+
+const legacy = time('legacy RegExp loop', () =>
+    titles.filter(title => legacyMatch(keywords, title).length > 0).length
+);
+const compiled = time('compiled matcher', () =>
+    titles.filter(title => matcher.match({ title }).length > 0).length
+);
+
+// Sanity check: both approaches must agree on every title
+const mismatches = titles.filter(title => {
+    const expected = legacyMatch(keywords, title).sort();
+    const actual = matcher.match({ title }).sort();
+    return expected.join('\n') !== actual.join('\n');
+});
+
+console.log(`\nSpeedup: ${(legacy / compiled).toFixed(1)}x`);
+if (mismatches.length > 0) {
+    console.error(`❌ ${mismatches.length} titles matched differently, e.g. "${mismatches[0]}"`);
+    process.exit(1);
+}
+console.log('✅ Compiled matcher agrees with legacy matching on all titles');
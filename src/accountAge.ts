@@ -0,0 +1,284 @@
+// Account profiles for the account filters (age, karma, email, suspension). The
+// background script keeps them in storage.local so they survive page loads, tabs and
+// filter restarts, and fetches missing profiles through one rate-limited queue shared
+// by every tab. Profiles are parsed by the content script, because the background
+// service worker has no DOMParser.
+
+export const ACCOUNT_AGE_CACHE_KEY = 'accountAgeCache';
+
+// Creation dates never change, but accounts get deleted or suspended
+export const ACCOUNT_AGE_TTL = 7 * 24 * 60 * 60 * 1000;
+export const ACCOUNT_AGE_CACHE_LIMIT = 5000;
+
+// Each parallel lookup slot starts at most one profile request per interval, across all tabs
+const PROFILE_FETCH_INTERVAL = 1000;
+const PROFILE_FETCH_RETRIES = 3;
+// Backoff after a 429 without a usable Retry-After: 30s, 60s, 120s ... up to 10 minutes
+const BACKOFF_BASE = 30 * 1000;
+const BACKOFF_MAX = 10 * 60 * 1000;
+
+// active, suspended (Reddit says so on the profile) or shadowbanned (the profile of an
+// author whose posts are visible answers 404)
+export type AccountState = 'active' | 'suspended' | 'shadowbanned';
+
+// What could be read from a profile. null means the profile did not show it, and
+// filters never act on a signal they could not read.
+export interface AccountProfile {
+    createdAt: number | null; // epoch ms
+    postKarma: number | null;
+    commentKarma: number | null;
+    verifiedEmail: boolean | null;
+    premium: boolean | null;
+    state: AccountState;
+}
+
+export interface CachedAccount extends AccountProfile {
+    fetchedAt: number;
+    usedAt: number; // last lookup, for least-recently-used eviction
+}
+
+// Keyed by lowercase username
+export type AccountAgeCache = Record<string, CachedAccount>;
+
+// What the background script answers to a lookup: the cached profile, or the freshly
+// fetched profile page for the content script to parse and send back
+export type AccountLookup =
+    | { status: 'cached'; profile: AccountProfile }
+    | { status: 'fetched'; html: string }
+    | { status: 'failed' };
+
+// Result of one profile request; 'missing' is a 404
+export type ProfileFetchResult =
+    | { status: 'fetched'; html: string }
+    | { status: 'missing' }
+    | { status: 'failed' };
+
+const ACCOUNT_STATES: AccountState[] = ['active', 'suspended', 'shadowbanned'];
+
+function isCachedAccount(value: unknown): value is CachedAccount {
+    if (typeof value !== 'object' || value === null) return false;
+    const entry = value as Record<string, unknown>;
+    const isNumberOrNull = (key: string) =>
+        entry[key] === null || (typeof entry[key] === 'number' && Number.isFinite(entry[key]));
+    const isFlagOrNull = (key: string) => entry[key] === null || typeof entry[key] === 'boolean';
+    // Entries from before karma and state were read have no state, and are fetched again
+    return ['fetchedAt', 'usedAt'].every(key => typeof entry[key] === 'number' && Number.isFinite(entry[key])) &&
+        ['createdAt', 'postKarma', 'commentKarma'].every(isNumberOrNull) &&
+        ['verifiedEmail', 'premium'].every(isFlagOrNull) &&
+        ACCOUNT_STATES.includes(entry.state as AccountState);
+}
+
+export function unknownProfile(state: AccountState = 'active'): AccountProfile {
+    return { createdAt: null, postKarma: null, commentKarma: null, verifiedEmail: null, premium: null, state };
+}
+
+// Fills the signals `profile` could not read from `fallback`
+export function fillProfile(profile: AccountProfile, fallback: AccountProfile): AccountProfile {
+    return {
+        createdAt: profile.createdAt ?? fallback.createdAt,
+        postKarma: profile.postKarma ?? fallback.postKarma,
+        commentKarma: profile.commentKarma ?? fallback.commentKarma,
+        verifiedEmail: profile.verifiedEmail ?? fallback.verifiedEmail,
+        premium: profile.premium ?? fallback.premium,
+        state: profile.state === 'active' ? fallback.state : profile.state
+    };
+}
+
+// True when the profile showed anything worth caching
+export function hasProfileSignals(profile: AccountProfile): boolean {
+    return profile.state !== 'active' || profile.createdAt !== null ||
+        profile.postKarma !== null || profile.commentKarma !== null;
+}
+
+// Drops malformed and expired entries from what was found in storage
+export function parseAccountAgeCache(stored: unknown, now: number): AccountAgeCache {
+    const cache: AccountAgeCache = {};
+    if (typeof stored !== 'object' || stored === null) return cache;
+    Object.entries(stored as Record<string, unknown>).forEach(([username, entry]) => {
+        if (isCachedAccount(entry) && now - entry.fetchedAt < ACCOUNT_AGE_TTL) {
+            cache[username] = entry;
+        }
+    });
+    return cache;
+}
+
+// Returns the profile and marks the entry as used, or null when it is missing or expired
+export function readCachedAccount(cache: AccountAgeCache, username: string, now: number): AccountProfile | null {
+    const entry = cache[username];
+    if (!entry) return null;
+    if (now - entry.fetchedAt >= ACCOUNT_AGE_TTL) {
+        delete cache[username];
+        return null;
+    }
+    entry.usedAt = now;
+    const { fetchedAt, usedAt, ...profile } = entry;
+    return profile;
+}
+
+// Stores a profile, evicting the least recently used entries over the limit
+export function writeCachedAccount(cache: AccountAgeCache, username: string, profile: AccountProfile, now: number): void {
+    cache[username] = { ...profile, fetchedAt: now, usedAt: now };
+
+    const usernames = Object.keys(cache);
+    if (usernames.length <= ACCOUNT_AGE_CACHE_LIMIT) return;
+    usernames
+        .sort((a, b) => cache[a].usedAt - cache[b].usedAt)
+        .slice(0, usernames.length - ACCOUNT_AGE_CACHE_LIMIT)
+        .forEach(name => delete cache[name]);
+}
+
+// How long to wait after a 429. Retry-After may be seconds or an HTTP date.
+export function retryDelay(retryAfter: string | null, backoffLevel: number, now: number): number {
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        if (Number.isFinite(seconds) && seconds >= 0) {
+            return Math.min(seconds * 1000, BACKOFF_MAX);
+        }
+        const date = Date.parse(retryAfter);
+        if (!Number.isNaN(date)) {
+            return Math.min(Math.max(0, date - now), BACKOFF_MAX);
+        }
+    }
+    return Math.min(BACKOFF_BASE * 2 ** backoffLevel, BACKOFF_MAX);
+}
+
+interface ProfileFetchJob {
+    url: string;
+    username: string;
+    attempts: number;
+    waiters: number; // lookups sharing this request that have not been cancelled
+    request: Promise<ProfileFetchResult>;
+    resolve: (result: ProfileFetchResult) => void;
+}
+
+function profileUrls(username: string): { header: string; about: string } {
+    const name = encodeURIComponent(username);
+    return {
+        header: `https://www.reddit.com/svc/shreddit/profiles/profile-header-details/${name}`,
+        about: `https://www.reddit.com/user/${name}/about.json`
+    };
+}
+
+// Fetches profile pages, `concurrency` at a time and starting at most `concurrency`
+// per interval, spread evenly over it. A page that is already waiting or being fetched shares that request,
+// so tabs asking about the same author cause one fetch.
+export class ProfileFetchQueue {
+    public concurrency = 1;
+    private waiting: ProfileFetchJob[] = [];
+    private jobs = new Map<string, ProfileFetchJob>(); // keyed by URL
+    private active = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private nextRequestAt = 0;
+    private backoffLevel = 0;
+
+    // The profile header, which the content script parses
+    fetchProfile(username: string): Promise<ProfileFetchResult> {
+        return this.enqueue(profileUrls(username).header, username);
+    }
+
+    // The about.json endpoint, the last resort when the header could not be parsed
+    fetchAbout(username: string): Promise<ProfileFetchResult> {
+        return this.enqueue(profileUrls(username).about, username);
+    }
+
+    private enqueue(url: string, username: string): Promise<ProfileFetchResult> {
+        const existing = this.jobs.get(url);
+        if (existing) {
+            existing.waiters++;
+            return existing.request;
+        }
+
+        let resolve: (result: ProfileFetchResult) => void = () => undefined;
+        const request = new Promise<ProfileFetchResult>(done => {
+            resolve = done;
+        });
+        const job: ProfileFetchJob = { url, username, attempts: 0, waiters: 1, request, resolve };
+        this.jobs.set(url, job);
+        this.waiting.push(job);
+        this.pump();
+        return request;
+    }
+
+    // Withdraws one lookup. The fetch is dropped (and resolves as failed) when nobody
+    // else is waiting for it and it has not started yet.
+    cancel(username: string): void {
+        const urls = profileUrls(username);
+        [urls.header, urls.about].forEach(url => {
+            const job = this.jobs.get(url);
+            if (!job || --job.waiters > 0) return;
+
+            const index = this.waiting.indexOf(job);
+            if (index !== -1) {
+                this.waiting.splice(index, 1);
+                this.finish(job, { status: 'failed' });
+            }
+        });
+    }
+
+    private finish(job: ProfileFetchJob, result: ProfileFetchResult): void {
+        this.jobs.delete(job.url);
+        job.resolve(result);
+    }
+
+    private pump(): void {
+        if (this.timer) return;
+        while (this.waiting.length > 0 && this.active < this.concurrency) {
+            const wait = this.nextRequestAt - Date.now();
+            if (wait > 0) {
+                this.timer = setTimeout(() => {
+                    this.timer = null;
+                    this.pump();
+                }, wait);
+                return;
+            }
+
+            const job = this.waiting.shift()!;
+            this.nextRequestAt = Date.now() + PROFILE_FETCH_INTERVAL / this.concurrency;
+            this.active++;
+            this.run(job).then(() => {
+                this.active--;
+                this.pump();
+            });
+        }
+    }
+
+    private async run(job: ProfileFetchJob): Promise<void> {
+        try {
+            const response = await fetch(job.url, {
+                credentials: 'include', // Include session cookies
+                headers: {
+                    'Accept': 'text/html,application/xhtml+xml,application/xml,application/json;q=0.9,*/*;q=0.8'
+                }
+            });
+
+            if (response.status === 429) {
+                // Pause the whole queue, then retry this profile first
+                const delay = retryDelay(response.headers.get('Retry-After'), this.backoffLevel, Date.now());
+                this.backoffLevel++;
+                this.nextRequestAt = Date.now() + delay;
+                console.warn(`⏳ Rate limited by Reddit, pausing profile fetches for ${Math.round(delay / 1000)}s`);
+                if (++job.attempts <= PROFILE_FETCH_RETRIES && job.waiters > 0) {
+                    this.waiting.unshift(job);
+                } else {
+                    this.finish(job, { status: 'failed' });
+                }
+                return;
+            }
+
+            this.backoffLevel = 0;
+            if (response.status === 404) {
+                this.finish(job, { status: 'missing' });
+                return;
+            }
+            if (!response.ok) {
+                console.log(`❌ Failed to fetch user profile for ${job.username}: ${response.status}`);
+                this.finish(job, { status: 'failed' });
+                return;
+            }
+            this.finish(job, { status: 'fetched', html: await response.text() });
+        } catch (error) {
+            console.error(`🚫 Error fetching user profile for ${job.username}:`, error);
+            this.finish(job, { status: 'failed' });
+        }
+    }
+}
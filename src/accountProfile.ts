@@ -0,0 +1,157 @@
+import { AccountProfile, AccountState } from './accountAge';
+import { FilterSettings } from './settings';
+import {
+    ACCOUNT_AGE_RULE,
+    COMMENT_KARMA_RULE,
+    POST_KARMA_RULE,
+    SUSPENDED_ACCOUNT_RULE,
+    UNVERIFIED_EMAIL_RULE
+} from './stats';
+
+// The account filters: everything besides the creation date that the profile header
+// shows about an author, and which of the user's thresholds it fails. The creation
+// date itself is read by profileParser.ts.
+
+export type ProfileSignals = Omit<AccountProfile, 'createdAt'>;
+
+export interface AccountRemoval {
+    rule: string;
+    reason: string;
+}
+
+// Labels for the rule statistics
+export const ACCOUNT_RULE_LABELS: Record<string, string> = {
+    [ACCOUNT_AGE_RULE]: 'Account age filter',
+    [POST_KARMA_RULE]: 'Minimum post karma',
+    [COMMENT_KARMA_RULE]: 'Minimum comment karma',
+    [UNVERIFIED_EMAIL_RULE]: 'Unverified email',
+    [SUSPENDED_ACCOUNT_RULE]: 'Suspended or shadowbanned'
+};
+
+const MONTH_MS = 1000 * 60 * 60 * 24 * 30.44; // Average days per month
+
+// "1,234", "12.5k" or "3M"
+export function parseCount(text: string): number | null {
+    const match = text.trim().replace(/,/g, '').match(/^(-?\d+(?:\.\d+)?)\s*([kKmM]?)$/);
+    if (!match) return null;
+    const multiplier = { k: 1000, m: 1000000 }[match[2].toLowerCase()] || 1;
+    return Math.round(Number(match[1]) * multiplier);
+}
+
+// The header shows each number above its label, e.g. <p>1,234</p><p>Post karma</p>
+function readLabelledCount(doc: Document, label: RegExp): number | null {
+    const labels = Array.from(doc.querySelectorAll('p, span, div'))
+        .filter(element => element.children.length === 0 && label.test(element.textContent?.trim() || ''));
+
+    for (const labelElement of labels) {
+        const container = labelElement.parentElement;
+        const number = container?.querySelector('faceplate-number[number]');
+        if (number) {
+            const value = Number(number.getAttribute('number'));
+            if (Number.isFinite(value)) return value;
+        }
+        const previous = labelElement.previousElementSibling;
+        const value = previous ? parseCount(previous.textContent || '') : null;
+        if (value !== null) return value;
+    }
+    return null;
+}
+
+// A flag is either an attribute on one of Reddit's components (is-premium) or a
+// property in the JSON embedded in the page ("isPremium":true)
+function readFlag(doc: Document, html: string, attribute: string, properties: string[]): boolean | null {
+    const element = doc.querySelector(`[${attribute}]`);
+    if (element) {
+        return element.getAttribute(attribute) !== 'false';
+    }
+    for (const property of properties) {
+        const match = html.match(new RegExp(`"${property}"\\s*:\\s*(true|false)`));
+        if (match) return match[1] === 'true';
+    }
+    return null;
+}
+
+function readState(doc: Document, html: string): AccountState {
+    if (readFlag(doc, html, 'is-suspended', ['isSuspended', 'is_suspended'])) return 'suspended';
+    const text = doc.body?.textContent || '';
+    return /this account has been suspended/i.test(text) ? 'suspended' : 'active';
+}
+
+export function parseProfileSignals(html: string): ProfileSignals {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    let premium = readFlag(doc, html, 'is-premium', ['isPremium', 'isGold', 'is_gold']);
+    if (premium === null && doc.querySelector('[data-testid="premium-badge"]')) {
+        premium = true;
+    }
+    return {
+        postKarma: readLabelledCount(doc, /^post karma$/i),
+        commentKarma: readLabelledCount(doc, /^comment karma$/i),
+        verifiedEmail: readFlag(doc, html, 'has-verified-email', ['hasVerifiedEmail', 'has_verified_email']),
+        premium,
+        state: readState(doc, html)
+    };
+}
+
+// The first account filter the profile fails, or null. Signals the profile did not
+// show never remove anything. The age check has its own switch; the other filters are
+// on whenever their threshold or flag is set.
+export function accountRemoval(
+    author: string,
+    profile: AccountProfile,
+    settings: FilterSettings,
+    now: number
+): AccountRemoval | null {
+    if (settings.exemptPremiumAccounts && profile.premium) {
+        return null;
+    }
+
+    if (settings.filterSuspendedAccounts && profile.state !== 'active') {
+        return { rule: SUSPENDED_ACCOUNT_RULE, reason: `${profile.state} account: ${author}` };
+    }
+
+    if (settings.accountAgeFilterEnabled && profile.createdAt !== null) {
+        const ageInMonths = (now - profile.createdAt) / MONTH_MS;
+        if (ageInMonths < settings.minAccountAge) {
+            return {
+                rule: ACCOUNT_AGE_RULE,
+                reason: `account too young: ${author} (${ageInMonths.toFixed(1)} months old, minimum: ${settings.minAccountAge})`
+            };
+        }
+    }
+
+    if (settings.minPostKarma > 0 && profile.postKarma !== null && profile.postKarma < settings.minPostKarma) {
+        return {
+            rule: POST_KARMA_RULE,
+            reason: `low post karma: ${author} (${profile.postKarma} post karma, minimum: ${settings.minPostKarma})`
+        };
+    }
+
+    if (settings.minCommentKarma > 0 && profile.commentKarma !== null && profile.commentKarma < settings.minCommentKarma) {
+        return {
+            rule: COMMENT_KARMA_RULE,
+            reason: `low comment karma: ${author} (${profile.commentKarma} comment karma, minimum: ${settings.minCommentKarma})`
+        };
+    }
+
+    if (settings.filterUnverifiedEmail && profile.verifiedEmail === false) {
+        return { rule: UNVERIFIED_EMAIL_RULE, reason: `unverified email: ${author}` };
+    }
+
+    return null;
+}
+
+// The account filters that can currently remove something, for the rule statistics
+export function activeAccountRules(settings: FilterSettings): string[] {
+    const rules: string[] = [];
+    if (settings.accountAgeFilterEnabled) rules.push(ACCOUNT_AGE_RULE);
+    if (settings.minPostKarma > 0) rules.push(POST_KARMA_RULE);
+    if (settings.minCommentKarma > 0) rules.push(COMMENT_KARMA_RULE);
+    if (settings.filterUnverifiedEmail) rules.push(UNVERIFIED_EMAIL_RULE);
+    if (settings.filterSuspendedAccounts) rules.push(SUSPENDED_ACCOUNT_RULE);
+    return rules;
+}
+
+// Whether authors' profiles need looking up at all
+export function accountFiltersActive(settings: FilterSettings): boolean {
+    return activeAccountRules(settings).length > 0;
+}
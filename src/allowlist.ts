@@ -0,0 +1,53 @@
+import { normalizeSubredditName, normalizeUsername, validateSubredditName, validateUsername } from './entries';
+import { normalizeKeywordRule, validateKeywordRule } from './keywordRules';
+
+// Allowlist entries are "never filter" rules. A post that matches any of them is
+// kept even when a keyword, subreddit or account-age rule would have removed it.
+
+export type AllowlistType = 'subreddits' | 'authors' | 'keywords';
+
+export interface AllowlistDefinition {
+    settingsKey: 'allowedSubreddits' | 'allowedAuthors' | 'allowedKeywords';
+    label: string;
+    placeholder: string;
+}
+
+export const ALLOWLISTS: Record<AllowlistType, AllowlistDefinition> = {
+    subreddits: {
+        settingsKey: 'allowedSubreddits',
+        label: 'subreddits',
+        placeholder: 'r/subreddit to always show...'
+    },
+    authors: {
+        settingsKey: 'allowedAuthors',
+        label: 'users',
+        placeholder: 'u/username to always show...'
+    },
+    keywords: {
+        settingsKey: 'allowedKeywords',
+        label: 'keywords',
+        placeholder: 'word, wild*card or /regex/...'
+    }
+};
+
+export function normalizeAllowlistEntry(type: AllowlistType, raw: string): string {
+    switch (type) {
+        case 'subreddits':
+            return normalizeSubredditName(raw);
+        case 'authors':
+            return normalizeUsername(raw);
+        default:
+            return normalizeKeywordRule(raw);
+    }
+}
+
+// Returns an error message for invalid entries, or null when the entry can be used
+export function validateAllowlistEntry(type: AllowlistType, value: string): string | null {
+    if (type === 'keywords') {
+        return validateKeywordRule(value);
+    }
+    if (type === 'authors') {
+        return validateUsername(value);
+    }
+    return validateSubredditName(value);
+}
@@ -0,0 +1,755 @@
+import browser from 'webextension-polyfill';
+import {
+    ACCOUNT_AGE_CACHE_KEY,
+    AccountAgeCache,
+    AccountLookup,
+    AccountProfile,
+    parseAccountAgeCache,
+    ProfileFetchQueue,
+    readCachedAccount,
+    unknownProfile,
+    writeCachedAccount
+} from './accountAge';
+import { activeAccountRules } from './accountProfile';
+import { BlockRequest, BlockResult, blockEntryChanges } from './blockEntry';
+import {
+    CreationDateStrategy,
+    emptyParserHealth,
+    isParserFailing,
+    PARSER_FAILURE_THRESHOLD,
+    PARSER_HEALTH_KEY,
+    ParserHealth,
+    parseAboutJson,
+    parseParserHealth,
+    recordParse
+} from './profileParser';
+import { BackgroundRequest, BroadcastMessage, ContentMessage, isBackgroundRequest, StoredCounters } from './messages';
+import {
+    BUNDLED_PACKS,
+    FilterPack,
+    PACK_REFRESH_ALARM,
+    PACK_REFRESH_MINUTES,
+    PACK_SUBSCRIPTIONS_KEY,
+    PackSubscribeResult,
+    PackSubscription,
+    packIdFor,
+    validateFilterPack
+} from './packs';
+import { FilterSettings, parseStoredSettings, validateSettings } from './settings';
+import {
+    appendHistory,
+    HISTORY_KEY,
+    HistoryEntry,
+    reconcileRuleStats,
+    recordDailyRemoval,
+    recordRuleHits,
+    RULE_STATS_KEY,
+    RuleHitStats,
+    settingsRuleKeys
+} from './stats';
+import {
+    chunkDocument,
+    chunkKey,
+    createSyncState,
+    documentToSettings,
+    mergeDocuments,
+    pruneTombstones,
+    readRemoteDocument,
+    RemoteDocument,
+    stampDocument,
+    SYNC_CHUNK_PREFIX,
+    SYNC_MANIFEST_KEY,
+    SYNC_STATE_KEY,
+    SyncDocument,
+    SyncManifest,
+    SyncState,
+    SyncStatus
+} from './sync';
+
+// Background script: the only writer of filterSettings, filterCounters and the filter
+// statistics. Every write goes through one queue so two tabs removing posts at the
+// same time cannot overwrite each other's counts, and every change is broadcast to
+// all Reddit tabs rather than only the active one.
+
+const REDDIT_TAB_PATTERNS = ['*://www.reddit.com/*', '*://reddit.com/*'];
+
+// Wait for a burst of edits (e.g. dragging the age slider) before writing to storage.sync
+const SYNC_PUSH_DELAY = 2000;
+// Before trying again after a failed sync
+const SYNC_RETRY_DELAY = 60 * 1000;
+
+function defaultCounters(): StoredCounters {
+    return {
+        totalRemoved: 0,
+        dailyRemoved: 0,
+        totalCommentsRemoved: 0,
+        dailyCommentsRemoved: 0,
+        lastResetDate: new Date().toDateString(),
+        dailySeries: {}
+    };
+}
+
+class SettingsStore {
+    // Cached while the background script is alive; reloaded from storage after it restarts
+    private settings: FilterSettings | null = null;
+    private counters: StoredCounters | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+    private syncTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // Runs tasks one at a time in the order they were requested
+    private serialize<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queue.then(task);
+        this.queue = run.catch(() => undefined);
+        return run;
+    }
+
+    private async loadSettings(): Promise<FilterSettings> {
+        if (!this.settings) {
+            const result = await browser.storage.local.get(['filterSettings']);
+            const { settings, migratedFrom, repairs, newerVersion } = parseStoredSettings(result.filterSettings);
+            if (migratedFrom !== null) {
+                console.log(`🔄 Migrated settings from schema version ${migratedFrom} to ${settings.schemaVersion}`);
+            }
+            if (repairs.length > 0) {
+                console.warn('⚠️ Repaired stored settings:', repairs);
+            }
+            // Write back defaults, migrations and repairs so the next load starts clean. Settings
+            // from a newer version are left alone: writing them back would lose its fields.
+            if (newerVersion === null && (!result.filterSettings || migratedFrom !== null || repairs.length > 0)) {
+                await browser.storage.local.set({ filterSettings: settings });
+            }
+            this.settings = settings;
+        }
+        return this.settings;
+    }
+
+    private async loadCounters(): Promise<StoredCounters> {
+        if (!this.counters) {
+            const result = await browser.storage.local.get(['filterCounters']);
+            this.counters = { ...defaultCounters(), ...(result.filterCounters as StoredCounters | undefined) };
+        }
+
+        // Reset daily counters if it's a new day; dailySeries keeps the previous days
+        const today = new Date().toDateString();
+        if (this.counters.lastResetDate !== today) {
+            this.counters.dailyRemoved = 0;
+            this.counters.dailyCommentsRemoved = 0;
+            this.counters.lastResetDate = today;
+            await browser.storage.local.set({ filterCounters: this.counters });
+        }
+        return this.counters;
+    }
+
+    getSettings(): Promise<FilterSettings> {
+        return this.serialize(() => this.loadSettings());
+    }
+
+    // Must run inside serialize()
+    private async writeSettings(changes: Partial<FilterSettings>): Promise<FilterSettings> {
+        const previous = await this.loadSettings();
+        const { settings, repairs } = validateSettings({ ...previous, ...changes });
+        if (repairs.length > 0) {
+            console.warn('⚠️ Repaired settings update:', repairs);
+        }
+        await browser.storage.local.set({ filterSettings: settings });
+        this.settings = settings;
+        await this.recordRuleChanges(previous, settings);
+        broadcast({ type: 'settingsUpdated', settings });
+        this.scheduleSync();
+        return settings;
+    }
+
+    // Must run inside serialize(). Keeps the rule statistics in step with the rules.
+    private async recordRuleChanges(previous: FilterSettings, next: FilterSettings): Promise<void> {
+        const keys = (settings: FilterSettings) => [...settingsRuleKeys(settings), ...activeAccountRules(settings)];
+        const result = await browser.storage.local.get([RULE_STATS_KEY]);
+        const stats = (result[RULE_STATS_KEY] as RuleHitStats) || {};
+        if (reconcileRuleStats(stats, keys(previous), keys(next), Date.now())) {
+            await browser.storage.local.set({ [RULE_STATS_KEY]: stats });
+        }
+    }
+
+    updateSettings(changes: Partial<FilterSettings>): Promise<FilterSettings> {
+        return this.serialize(() => this.writeSettings(changes));
+    }
+
+    // Adds one entry to a block list, reading the lists inside the queue so a block
+    // made at the same time as a popup edit is not lost
+    blockEntry(request: BlockRequest): Promise<BlockResult> {
+        return this.serialize(async () => {
+            const result = blockEntryChanges(await this.loadSettings(), request);
+            if ('changes' in result) {
+                await this.writeSettings(result.changes);
+            }
+            return result;
+        });
+    }
+
+    getCounters(): Promise<StoredCounters> {
+        return this.serialize(() => this.loadCounters());
+    }
+
+    recordRemoval(request: Extract<BackgroundRequest, { type: 'recordRemoval' }>): Promise<StoredCounters> {
+        return this.serialize(async () => {
+            const counters = await this.loadCounters();
+            recordDailyRemoval(counters.dailySeries, request.category, new Date());
+            if (request.isComment) {
+                counters.totalCommentsRemoved++;
+                counters.dailyCommentsRemoved++;
+            } else {
+                counters.totalRemoved++;
+                counters.dailyRemoved++;
+            }
+            await browser.storage.local.set({ filterCounters: counters });
+            broadcast({ type: 'countersUpdated', counters });
+            return counters;
+        });
+    }
+
+    recordFilterStats(ruleHits: string[], history: HistoryEntry[]): Promise<void> {
+        return this.serialize(async () => {
+            const result = await browser.storage.local.get([RULE_STATS_KEY, HISTORY_KEY]);
+            const stats = recordRuleHits((result[RULE_STATS_KEY] as RuleHitStats) || {}, ruleHits, Date.now());
+            const storedHistory = (result[HISTORY_KEY] as HistoryEntry[]) || [];
+            await browser.storage.local.set({
+                [RULE_STATS_KEY]: stats,
+                [HISTORY_KEY]: appendHistory(storedHistory, history)
+            });
+        });
+    }
+
+    private async loadSyncState(): Promise<SyncState> {
+        const result = await browser.storage.local.get([SYNC_STATE_KEY]);
+        if (result[SYNC_STATE_KEY]) {
+            return { ...createSyncState(), ...(result[SYNC_STATE_KEY] as SyncState) };
+        }
+        const state = createSyncState();
+        await browser.storage.local.set({ [SYNC_STATE_KEY]: state });
+        return state;
+    }
+
+    private async readRemoteDocument(): Promise<RemoteDocument> {
+        return readRemoteDocument(await browser.storage.sync.get(null));
+    }
+
+    private async writeRemoteDocument(doc: SyncDocument, deviceId: string): Promise<void> {
+        const chunks = chunkDocument(doc);
+        const items: Record<string, unknown> = {};
+        chunks.forEach((chunk, index) => {
+            items[chunkKey(index)] = chunk;
+        });
+        const manifest: SyncManifest = { chunks: chunks.length, updatedAt: Date.now(), deviceId };
+        items[SYNC_MANIFEST_KEY] = manifest;
+        await browser.storage.sync.set(items);
+
+        // Remove chunks left over from a larger document
+        const existing = await browser.storage.sync.get(null);
+        const stale = Object.keys(existing).filter(key =>
+            key.startsWith(SYNC_CHUNK_PREFIX) && !(key in items)
+        );
+        if (stale.length > 0) {
+            await browser.storage.sync.remove(stale);
+        }
+    }
+
+    getSyncStatus(): Promise<SyncStatus> {
+        return this.serialize(async () => {
+            const { enabled, lastSyncedAt, lastError } = await this.loadSyncState();
+            return { enabled, lastSyncedAt, lastError };
+        });
+    }
+
+    async setSyncEnabled(enabled: boolean): Promise<SyncStatus> {
+        await this.serialize(async () => {
+            const state = await this.loadSyncState();
+            // Forget the last document so re-enabling starts with a fresh merge
+            await browser.storage.local.set({
+                [SYNC_STATE_KEY]: { ...state, enabled, lastDocument: null, lastError: null }
+            });
+        });
+        return enabled ? this.syncNow() : this.getSyncStatus();
+    }
+
+    scheduleSync(delay = SYNC_PUSH_DELAY): void {
+        if (this.syncTimer) {
+            clearTimeout(this.syncTimer);
+        }
+        this.syncTimer = setTimeout(() => {
+            this.syncTimer = null;
+            this.syncNow();
+        }, delay);
+    }
+
+    // Merges local settings with storage.sync, applies the result locally and writes
+    // it back if this device had changes the other devices have not seen yet
+    syncNow(): Promise<SyncStatus> {
+        return this.serialize(async () => {
+            const state = await this.loadSyncState();
+            if (!state.enabled) {
+                return { enabled: false, lastSyncedAt: state.lastSyncedAt, lastError: state.lastError };
+            }
+
+            try {
+                const now = Date.now();
+                const current = await this.loadSettings();
+                const local = stampDocument(current, state.lastDocument, now);
+                const result = await this.readRemoteDocument();
+                if (result.status === 'unreadable') {
+                    // Likely another device mid-write. Writing over it would lose that
+                    // device's rules, so leave it alone and try again later.
+                    state.lastError = 'Synced settings are incomplete, trying again shortly';
+                    await browser.storage.local.set({ [SYNC_STATE_KEY]: state });
+                    this.scheduleSync(SYNC_RETRY_DELAY);
+                    return { enabled: state.enabled, lastSyncedAt: state.lastSyncedAt, lastError: state.lastError };
+                }
+                const remote = result.status === 'found' ? result.doc : null;
+                const merged = pruneTombstones(remote ? mergeDocuments(local, remote) : local, now);
+
+                const { settings } = validateSettings({ ...documentToSettings(merged, current) });
+                if (JSON.stringify(settings) !== JSON.stringify(current)) {
+                    await browser.storage.local.set({ filterSettings: settings });
+                    this.settings = settings;
+                    await this.recordRuleChanges(current, settings);
+                    broadcast({ type: 'settingsUpdated', settings });
+                }
+
+                if (!remote || JSON.stringify(merged) !== JSON.stringify(remote)) {
+                    await this.writeRemoteDocument(merged, state.deviceId);
+                }
+
+                state.lastDocument = merged;
+                state.lastSyncedAt = now;
+                state.lastError = null;
+            } catch (error) {
+                console.error('Failed to sync settings:', error);
+                state.lastError = (error as Error).message || String(error);
+            }
+
+            await browser.storage.local.set({ [SYNC_STATE_KEY]: state });
+            return { enabled: state.enabled, lastSyncedAt: state.lastSyncedAt, lastError: state.lastError };
+        });
+    }
+
+    // Another device wrote to storage.sync
+    handleRemoteChange(manifest: SyncManifest | undefined): void {
+        this.serialize(() => this.loadSyncState()).then(state => {
+            if (state.enabled && manifest && manifest.deviceId !== state.deviceId) {
+                this.syncNow();
+            }
+        });
+    }
+
+    private async loadPackSubscriptions(): Promise<Record<string, PackSubscription>> {
+        const result = await browser.storage.local.get([PACK_SUBSCRIPTIONS_KEY]);
+        return (result[PACK_SUBSCRIPTIONS_KEY] as Record<string, PackSubscription>) || {};
+    }
+
+    subscribePack(url: string): Promise<PackSubscribeResult> {
+        return this.serialize(async () => {
+            let pack: FilterPack;
+            try {
+                pack = await fetchPack(url);
+            } catch (error) {
+                return { ok: false, error: (error as Error).message };
+            }
+
+            const subscriptions = await this.loadPackSubscriptions();
+            const existing = Object.keys(subscriptions).find(packId => subscriptions[packId].url === url);
+            const packId = existing || packIdFor(pack.name, 'url', [...Object.keys(subscriptions), ...Object.keys(BUNDLED_PACKS)]);
+            subscriptions[packId] = { url, pack, lastUpdated: Date.now(), lastChecked: Date.now(), lastError: null };
+            await browser.storage.local.set({ [PACK_SUBSCRIPTIONS_KEY]: subscriptions });
+            return { ok: true, packId };
+        });
+    }
+
+    importPackFile(data: unknown, replaceId?: string): Promise<PackSubscribeResult> {
+        return this.serialize(async () => {
+            const error = validateFilterPack(data);
+            if (error) {
+                return { ok: false, error };
+            }
+            const pack = data as FilterPack;
+
+            // Loading a file with the same pack name again replaces it, like a manual update
+            const subscriptions = await this.loadPackSubscriptions();
+            const existing = replaceId && subscriptions[replaceId]?.url === null
+                ? replaceId
+                : Object.keys(subscriptions).find(packId =>
+                    subscriptions[packId].url === null && subscriptions[packId].pack.name === pack.name
+                );
+            const packId = existing || packIdFor(pack.name, 'file', [...Object.keys(subscriptions), ...Object.keys(BUNDLED_PACKS)]);
+            subscriptions[packId] = { url: null, pack, lastUpdated: Date.now(), lastChecked: null, lastError: null };
+            await browser.storage.local.set({ [PACK_SUBSCRIPTIONS_KEY]: subscriptions });
+            return { ok: true, packId };
+        });
+    }
+
+    unsubscribePack(packId: string): Promise<void> {
+        return this.serialize(async () => {
+            const subscriptions = await this.loadPackSubscriptions();
+            delete subscriptions[packId];
+            await browser.storage.local.set({ [PACK_SUBSCRIPTIONS_KEY]: subscriptions });
+        });
+    }
+
+    refreshPacks(): Promise<Record<string, PackSubscription>> {
+        return this.serialize(async () => {
+            const subscriptions = await this.loadPackSubscriptions();
+            for (const packId of Object.keys(subscriptions)) {
+                const subscription = subscriptions[packId];
+                if (!subscription.url) continue;
+
+                subscription.lastChecked = Date.now();
+                try {
+                    const pack = await fetchPack(subscription.url);
+                    if (JSON.stringify(pack) !== JSON.stringify(subscription.pack)) {
+                        subscription.pack = pack;
+                        subscription.lastUpdated = Date.now();
+                    }
+                    subscription.lastError = null;
+                } catch (error) {
+                    // Keep the last good copy of the pack
+                    subscription.lastError = (error as Error).message;
+                    console.warn(`Failed to refresh pack "${subscription.pack.name}":`, error);
+                }
+            }
+            await browser.storage.local.set({ [PACK_SUBSCRIPTIONS_KEY]: subscriptions });
+            return subscriptions;
+        });
+    }
+
+    clear(key: string): Promise<void> {
+        return this.serialize(() => browser.storage.local.remove(key));
+    }
+
+    // Drop the cache when storage is changed by something other than this store
+    invalidate(keys: string[]): void {
+        if (keys.includes('filterSettings')) this.settings = null;
+        if (keys.includes('filterCounters')) this.counters = null;
+    }
+}
+
+// Wait for a burst of lookups before writing the account cache back to storage
+const ACCOUNT_CACHE_PERSIST_DELAY = 2000;
+
+// Account profiles shared by every tab. Only this script reads and writes
+// accountAgeCache and profileParserHealth, so the copy in memory is the source of truth while it is alive.
+class AccountAgeStore {
+    private cache: Promise<AccountAgeCache> | null = null;
+    private health: Promise<ParserHealth> | null = null;
+    private persistTimer: ReturnType<typeof setTimeout> | null = null;
+    private queue = new ProfileFetchQueue();
+
+    constructor(private settings: SettingsStore) {}
+
+    private load(): Promise<AccountAgeCache> {
+        if (!this.cache) {
+            this.cache = browser.storage.local.get([ACCOUNT_AGE_CACHE_KEY])
+                .then(result => parseAccountAgeCache(result[ACCOUNT_AGE_CACHE_KEY], Date.now()))
+                .catch(error => {
+                    console.error('Failed to load the account age cache:', error);
+                    return {};
+                });
+        }
+        return this.cache;
+    }
+
+    private schedulePersist(): void {
+        if (this.persistTimer) return;
+        this.persistTimer = setTimeout(async () => {
+            this.persistTimer = null;
+            try {
+                const changes: Record<string, unknown> = { [ACCOUNT_AGE_CACHE_KEY]: await this.load() };
+                if (this.health) {
+                    changes[PARSER_HEALTH_KEY] = await this.health;
+                }
+                await browser.storage.local.set(changes);
+            } catch (error) {
+                console.error('Failed to save the account age cache:', error);
+            }
+        }, ACCOUNT_CACHE_PERSIST_DELAY);
+    }
+
+    async lookup(username: string): Promise<AccountLookup> {
+        const name = username.toLowerCase();
+        const cached = readCachedAccount(await this.load(), name, Date.now());
+        if (cached !== null) {
+            this.schedulePersist();
+            return { status: 'cached', profile: cached };
+        }
+
+        this.queue.concurrency = (await this.settings.getSettings()).accountAgeConcurrency;
+        const result = await this.queue.fetchProfile(name);
+        if (result.status === 'missing') {
+            return this.confirmMissing(name);
+        }
+        return result;
+    }
+
+    // The profile header also 404s for deleted and renamed accounts and on Reddit
+    // hiccups, so only about.json answering 404 as well marks the author shadowbanned.
+    // An account about.json still knows is remembered from there instead.
+    private async confirmMissing(name: string): Promise<AccountLookup> {
+        const about = await this.queue.fetchAbout(name);
+        let profile: AccountProfile | null = null;
+        if (about.status === 'missing') {
+            profile = unknownProfile('shadowbanned');
+        } else if (about.status === 'fetched') {
+            profile = parseAboutJson(about.html);
+        }
+        if (!profile) {
+            return { status: 'failed' };
+        }
+        await this.remember(name, profile);
+        return { status: 'cached', profile };
+    }
+
+    // The about.json fallback, parsed here since it needs no DOM
+    async lookupAbout(username: string): Promise<AccountProfile | null> {
+        const result = await this.queue.fetchAbout(username.toLowerCase());
+        return result.status === 'fetched' ? parseAboutJson(result.html) : null;
+    }
+
+    async cancel(username: string): Promise<void> {
+        this.queue.cancel(username.toLowerCase());
+    }
+
+    async remember(username: string, profile: AccountProfile): Promise<void> {
+        writeCachedAccount(await this.load(), username.toLowerCase(), profile, Date.now());
+        this.schedulePersist();
+    }
+
+    private loadHealth(): Promise<ParserHealth> {
+        if (!this.health) {
+            this.health = browser.storage.local.get([PARSER_HEALTH_KEY])
+                .then(result => parseParserHealth(result[PARSER_HEALTH_KEY]))
+                .catch(error => {
+                    console.error('Failed to load the profile parser health:', error);
+                    return emptyParserHealth();
+                });
+        }
+        return this.health;
+    }
+
+    getParserHealth(): Promise<ParserHealth> {
+        return this.loadHealth();
+    }
+
+    async recordParse(strategy: CreationDateStrategy | null): Promise<void> {
+        const health = recordParse(await this.loadHealth(), strategy, Date.now());
+        if (isParserFailing(health) && health.consecutiveFailures === PARSER_FAILURE_THRESHOLD) {
+            console.warn(`⚠️ No profile parser strategy has found a creation date in the last ${PARSER_FAILURE_THRESHOLD} profiles`);
+        }
+        this.schedulePersist();
+    }
+}
+
+async function fetchPack(url: string): Promise<FilterPack> {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+    }
+
+    let data: unknown;
+    try {
+        data = await response.json();
+    } catch (error) {
+        throw new Error('Response is not valid JSON');
+    }
+    const error = validateFilterPack(data);
+    if (error) {
+        throw new Error(error);
+    }
+    return data as FilterPack;
+}
+
+async function broadcast(message: BroadcastMessage): Promise<void> {
+    // Extension pages (popup, options) listen on runtime messages
+    browser.runtime.sendMessage(message).catch(() => {
+        // Silently ignore - no extension page is open
+    });
+
+    try {
+        const tabs = await browser.tabs.query({ url: REDDIT_TAB_PATTERNS });
+        tabs.forEach(tab => {
+            if (tab.id === undefined) return;
+            browser.tabs.sendMessage(tab.id, message).catch(() => {
+                // Silently ignore tabs where the content script isn't running
+            });
+        });
+    } catch (error) {
+        console.error('Failed to notify Reddit tabs:', error);
+    }
+}
+
+const store = new SettingsStore();
+const accounts = new AccountAgeStore(store);
+
+browser.runtime.onMessage.addListener((message: unknown) => {
+    if (!isBackgroundRequest(message)) {
+        return undefined;
+    }
+
+    switch (message.type) {
+        case 'getSettings':
+            return store.getSettings();
+        case 'updateSettings':
+            return store.updateSettings(message.changes);
+        case 'blockEntry':
+            return store.blockEntry(message.request);
+        case 'getCounters':
+            return store.getCounters();
+        case 'recordRemoval':
+            return store.recordRemoval(message);
+        case 'recordFilterStats':
+            return store.recordFilterStats(message.ruleHits, message.history);
+        case 'clearRuleStats':
+            return store.clear(RULE_STATS_KEY);
+        case 'clearHistory':
+            return store.clear(HISTORY_KEY);
+        case 'getSyncStatus':
+            return store.getSyncStatus();
+        case 'setSyncEnabled':
+            return store.setSyncEnabled(message.enabled);
+        case 'syncNow':
+            return store.syncNow();
+        case 'subscribePack':
+            return store.subscribePack(message.url);
+        case 'importPackFile':
+            return store.importPackFile(message.pack, message.packId);
+        case 'unsubscribePack':
+            return store.unsubscribePack(message.packId);
+        case 'refreshPacks':
+            return store.refreshPacks();
+        case 'lookupAccount':
+            return accounts.lookup(message.username);
+        case 'rememberAccountProfile':
+            return accounts.remember(message.username, message.profile);
+        case 'lookupAccountAbout':
+            return accounts.lookupAbout(message.username);
+        case 'recordProfileParse':
+            return accounts.recordParse(message.strategy);
+        case 'getParserHealth':
+            return accounts.getParserHealth();
+        case 'cancelAccountLookup':
+            return accounts.cancel(message.username);
+    }
+});
+
+// Storage can also be changed outside this store (e.g. cleared from devtools), so
+// re-read it after any change instead of trusting the cache
+browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'sync') {
+        if (changes[SYNC_MANIFEST_KEY]) {
+            store.handleRemoteChange(changes[SYNC_MANIFEST_KEY].newValue as SyncManifest | undefined);
+        }
+        return;
+    }
+    if (areaName !== 'local') return;
+    store.invalidate(Object.keys(changes));
+});
+
+// Pick up changes made on other devices while this browser was closed
+browser.runtime.onStartup.addListener(() => {
+    store.syncNow();
+});
+
+// Refresh subscribed packs periodically. Alarms survive the background script being
+// suspended, unlike timers, but the browser may drop them on restart or update, so
+// every start of the background script checks that the alarm still exists.
+async function ensurePackRefreshAlarm(): Promise<void> {
+    const alarm = await browser.alarms.get(PACK_REFRESH_ALARM);
+    if (!alarm) {
+        browser.alarms.create(PACK_REFRESH_ALARM, { periodInMinutes: PACK_REFRESH_MINUTES });
+    }
+}
+
+ensurePackRefreshAlarm().catch(error => {
+    console.error('Failed to schedule the pack refresh:', error);
+});
+
+browser.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === PACK_REFRESH_ALARM) {
+        store.refreshPacks();
+    }
+});
+
+// Context menu entries for blocking from any Reddit page: selected text as a keyword,
+// and r/ or u/ links as a subreddit or user
+const CONTEXT_MENU_DOCUMENTS = REDDIT_TAB_PATTERNS;
+const CONTEXT_MENU_ITEMS: browser.Menus.CreateCreatePropertiesType[] = [
+    {
+        id: 'blockKeyword',
+        title: 'Block "%s" as a keyword',
+        contexts: ['selection'],
+        documentUrlPatterns: CONTEXT_MENU_DOCUMENTS
+    },
+    {
+        id: 'blockSubreddit',
+        title: 'Block this subreddit',
+        contexts: ['link'],
+        documentUrlPatterns: CONTEXT_MENU_DOCUMENTS,
+        targetUrlPatterns: ['*://*.reddit.com/r/*']
+    },
+    {
+        id: 'blockUser',
+        title: 'Block this user',
+        contexts: ['link'],
+        documentUrlPatterns: CONTEXT_MENU_DOCUMENTS,
+        targetUrlPatterns: ['*://*.reddit.com/u/*', '*://*.reddit.com/user/*']
+    }
+];
+
+browser.runtime.onInstalled.addListener(async () => {
+    // Menus persist across restarts, so they are only (re)created on install and update
+    await browser.contextMenus.removeAll();
+    CONTEXT_MENU_ITEMS.forEach(item => browser.contextMenus.create(item));
+});
+
+// The subreddit or username a reddit.com/r/... or /u/... link points to
+function linkTarget(linkUrl: string, kind: 'r' | 'u'): string {
+    try {
+        const match = new URL(linkUrl).pathname.match(/^\/(r|u|user)\/([^/]+)/);
+        if (match && (match[1] === 'r') === (kind === 'r')) {
+            return decodeURIComponent(match[2]);
+        }
+    } catch (error) {
+        // Not a URL, handled as no target below
+    }
+    return '';
+}
+
+function contextMenuRequest(info: browser.Menus.OnClickData): BlockRequest | null {
+    if (info.menuItemId === 'blockKeyword' && info.selectionText) {
+        return { type: 'keyword', value: info.selectionText };
+    }
+    if (info.menuItemId === 'blockSubreddit' && info.linkUrl) {
+        return { type: 'subreddit', value: linkTarget(info.linkUrl, 'r') };
+    }
+    if (info.menuItemId === 'blockUser' && info.linkUrl) {
+        return { type: 'user', value: linkTarget(info.linkUrl, 'u') };
+    }
+    return null;
+}
+
+browser.contextMenus.onClicked.addListener(async (info, tab) => {
+    const request = contextMenuRequest(info);
+    if (!request) return;
+
+    let toast: ContentMessage;
+    try {
+        const result = await store.blockEntry(request);
+        toast = 'error' in result
+            ? { type: 'showToast', text: result.error, isError: true }
+            : { type: 'showToast', text: `Blocked ${result.label}`, isError: false };
+    } catch (error) {
+        console.error('Failed to block from the context menu:', error);
+        toast = { type: 'showToast', text: 'Could not save the filter', isError: true };
+    }
+
+    if (tab?.id !== undefined) {
+        browser.tabs.sendMessage(tab.id, toast).catch(() => {
+            // The content script doesn't run on every Reddit page; the block is saved either way
+        });
+    }
+});
@@ -0,0 +1,41 @@
+import { normalizeSubredditName, normalizeUsername, validateSubredditName, validateUsername } from './entries';
+import { normalizeKeywordRule, validateKeywordRule } from './keywordRules';
+import { FilterSettings } from './settings';
+
+// Blocking a single subreddit, user or keyword from outside the popup: the Filter
+// menu on each post and the browser's context menu both go through here.
+
+export type BlockRequest =
+    | { type: 'subreddit'; value: string }
+    | { type: 'user'; value: string }
+    | { type: 'keyword'; value: string };
+
+export type BlockResult =
+    | { changes: Partial<FilterSettings>; label: string } // label names the entry as the lists show it
+    | { error: string };
+
+// Normalizes and validates the entry, and returns the settings changes that add it
+export function blockEntryChanges(settings: FilterSettings, request: BlockRequest): BlockResult {
+    if (request.type === 'subreddit') {
+        const subreddit = normalizeSubredditName(request.value);
+        const error = validateSubredditName(subreddit);
+        if (error) return { error };
+        if (settings.subreddits.includes(subreddit)) return { error: `${subreddit} is already blocked` };
+        return { changes: { subreddits: [...settings.subreddits, subreddit].sort() }, label: subreddit };
+    }
+
+    if (request.type === 'user') {
+        const user = normalizeUsername(request.value);
+        const error = validateUsername(user);
+        if (error) return { error };
+        if (settings.blockedUsers.includes(user)) return { error: `u/${user} is already blocked` };
+        return { changes: { blockedUsers: [...settings.blockedUsers, user].sort() }, label: `u/${user}` };
+    }
+
+    const keyword = normalizeKeywordRule(request.value);
+    if (!keyword) return { error: 'No keyword to block' };
+    const error = validateKeywordRule(keyword);
+    if (error) return { error };
+    if (settings.keywords.includes(keyword)) return { error: `"${keyword}" is already blocked` };
+    return { changes: { keywords: [...settings.keywords, keyword].sort() }, label: `"${keyword}"` };
+}
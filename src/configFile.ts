@@ -0,0 +1,292 @@
+import { FilterPack, PackSubscription, validateFilterPack } from './packs';
+import { FilterSettings, parseStoredSettings } from './settings';
+import { ruleKey } from './stats';
+
+// Portable configuration file used by the options page's export and import actions.
+// The settings inside carry their own schemaVersion, so a file exported by an older
+// version of the extension goes through the same migrations as stored settings.
+// Pack subscriptions travel alongside, so the importing browser can subscribe again.
+
+export const CONFIG_FILE_FORMAT = 'reddit-refine-config';
+export const CONFIG_FILE_VERSION = 1;
+
+export interface ConfigFile {
+    format: typeof CONFIG_FILE_FORMAT;
+    version: number; // version of this envelope, not of the settings schema
+    exportedAt: string; // ISO timestamp
+    settings: FilterSettings;
+    packs?: Record<string, ExportedPack>; // keyed by packId on the exporting browser
+}
+
+// A subscription as carried in the file: the URL to subscribe to, or for a pack loaded
+// from a file the pack itself
+export interface ExportedPack {
+    url: string | null;
+    pack: FilterPack;
+}
+
+export type ConfigImportResult =
+    | { ok: true; settings: FilterSettings; packs: Record<string, ExportedPack>; repairs: string[] }
+    | { ok: false; error: string };
+
+export type ImportMode = 'merge' | 'replace';
+
+// One line of the import preview
+export interface SettingsChange {
+    field: keyof FilterSettings;
+    added: string[];
+    removed: string[];
+    updated?: string[]; // entries of a map whose value changed
+    changed?: { from: string; to: string };
+}
+
+export function createConfigFile(settings: FilterSettings, subscriptions: Record<string, PackSubscription>): ConfigFile {
+    const packs: Record<string, ExportedPack> = {};
+    Object.entries(subscriptions).forEach(([packId, subscription]) => {
+        packs[packId] = { url: subscription.url, pack: subscription.pack };
+    });
+    return {
+        format: CONFIG_FILE_FORMAT,
+        version: CONFIG_FILE_VERSION,
+        exportedAt: new Date().toISOString(),
+        settings,
+        packs
+    };
+}
+
+// Unusable entries are left out and listed in `repairs`
+function parseExportedPacks(data: unknown, repairs: string[]): Record<string, ExportedPack> {
+    const packs: Record<string, ExportedPack> = {};
+    if (data === undefined) return packs;
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        repairs.push('packs: expected an object, ignored');
+        return packs;
+    }
+    Object.entries(data as Record<string, unknown>).forEach(([packId, entry]) => {
+        const { url, pack } = (entry || {}) as Partial<ExportedPack>;
+        const error = validateFilterPack(pack);
+        if (error || (url !== null && typeof url !== 'string')) {
+            repairs.push(`packs: ${packId} ignored, ${error || 'invalid URL'}`);
+            return;
+        }
+        packs[packId] = { url: url as string | null, pack: pack as FilterPack };
+    });
+    return packs;
+}
+
+export function configFileName(date: Date): string {
+    return `reddit-refine-config-${date.toISOString().slice(0, 10)}.json`;
+}
+
+// Validates an uploaded file. Nothing here touches storage.
+export function parseConfigFile(text: string): ConfigImportResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return { ok: false, error: 'File is not valid JSON' };
+    }
+
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return { ok: false, error: 'File is not a Reddit Refine configuration' };
+    }
+    const file = data as Partial<ConfigFile>;
+    if (file.format !== CONFIG_FILE_FORMAT) {
+        return { ok: false, error: 'File is not a Reddit Refine configuration' };
+    }
+    if (typeof file.version !== 'number' || file.version > CONFIG_FILE_VERSION) {
+        return { ok: false, error: 'File was exported by a newer version of the extension' };
+    }
+    if (typeof file.settings !== 'object' || file.settings === null || Array.isArray(file.settings)) {
+        return { ok: false, error: 'File does not contain any settings' };
+    }
+
+    const { settings, repairs } = parseStoredSettings(file.settings);
+    const packs = parseExportedPacks(file.packs, repairs);
+    return { ok: true, settings, packs, repairs };
+}
+
+// The packs `settings` names that are neither bundled nor subscribed in this browser
+export function unknownPackIds(settings: FilterSettings, knownPackIds: string[]): string[] {
+    const referenced = new Set([
+        ...(settings.enabledPacks || []),
+        ...(settings.pinnedPacks || []),
+        ...Object.keys(settings.packVersions || {}),
+        ...Object.keys(settings.packContents || {}),
+        ...Object.values(settings.keywordSources || {}),
+        ...Object.values(settings.subredditSources || {})
+    ]);
+    return Array.from(referenced).filter(packId => !knownPackIds.includes(packId));
+}
+
+// Rule keys of packs, e.g. "pack:sports", in the maps keyed by rule
+const PACK_RULE_MAPS = ['ruleSchedules', 'ruleHideModes'] as const;
+
+// Renames a pack everywhere the settings refer to it, or forgets it when `to` is null.
+// A forgotten pack's rules are kept as the user's own.
+function replacePackId(settings: FilterSettings, from: string, to: string | null): void {
+    const replaceIn = (list: string[] | undefined) => list
+        ?.flatMap(packId => packId !== from ? [packId] : to ? [to] : []);
+    settings.enabledPacks = replaceIn(settings.enabledPacks);
+    settings.pinnedPacks = replaceIn(settings.pinnedPacks);
+
+    const renameKey = (map: Record<string, unknown> | undefined, key: string, newKey: string | null) => {
+        if (!map || !(key in map)) return;
+        if (newKey) map[newKey] = map[key];
+        delete map[key];
+    };
+    renameKey(settings.packVersions, from, to);
+    renameKey(settings.packContents, from, to);
+    PACK_RULE_MAPS.forEach(field => {
+        renameKey(settings[field], ruleKey('pack', from), to && ruleKey('pack', to));
+    });
+
+    [settings.keywordSources, settings.subredditSources].forEach(sources => {
+        Object.keys(sources || {}).forEach(entry => {
+            if (!sources || sources[entry] !== from) return;
+            if (to) {
+                sources[entry] = to;
+            } else {
+                delete sources[entry];
+            }
+        });
+    });
+}
+
+export function renamePack(settings: FilterSettings, from: string, to: string): void {
+    replacePackId(settings, from, to);
+}
+
+export function removePacks(settings: FilterSettings, packIds: string[]): void {
+    packIds.forEach(packId => replacePackId(settings, packId, null));
+}
+
+const LIST_FIELDS: Array<keyof FilterSettings> = [
+    'keywords',
+    'subreddits',
+    'blockedUsers',
+    'allowedSubreddits',
+    'allowedAuthors',
+    'allowedKeywords',
+    'enabledPacks',
+    'pinnedPacks'
+];
+
+// Keyed by rule, pack or category
+const MAP_FIELDS: Array<keyof FilterSettings> = [
+    'ruleSchedules',
+    'categoryHideModes',
+    'ruleHideModes',
+    'packVersions',
+    'packContents',
+    'keywordSources',
+    'subredditSources'
+];
+
+const VALUE_FIELDS: Array<keyof FilterSettings> = [
+    'enabled',
+    'minAccountAge',
+    'accountAgeFilterEnabled',
+    'accountAgeConcurrency',
+    'minPostKarma',
+    'minCommentKarma',
+    'filterUnverifiedEmail',
+    'filterSuspendedAccounts',
+    'exemptPremiumAccounts',
+    'commentFilterEnabled',
+    'hideMode'
+];
+
+function union(current: string[] = [], incoming: string[] = []): string[] {
+    return Array.from(new Set([...current, ...incoming]));
+}
+
+// Merge keeps every current rule and option and adds what the file has on top.
+// Pack sources and versions already known locally are not overwritten.
+// Replace takes the file as-is.
+export function applyImport(current: FilterSettings, imported: FilterSettings, mode: ImportMode): FilterSettings {
+    if (mode === 'replace') {
+        return {
+            ...imported,
+            enabledPacks: imported.enabledPacks || [],
+            packVersions: imported.packVersions || {},
+            categoryHideModes: imported.categoryHideModes || {},
+            ruleHideModes: imported.ruleHideModes || {},
+            packContents: imported.packContents || {},
+            pinnedPacks: imported.pinnedPacks || [],
+            ruleSchedules: imported.ruleSchedules || {},
+            keywordSources: imported.keywordSources || {},
+            subredditSources: imported.subredditSources || {}
+        };
+    }
+
+    return {
+        ...current,
+        keywords: union(current.keywords, imported.keywords),
+        subreddits: union(current.subreddits, imported.subreddits),
+        blockedUsers: union(current.blockedUsers, imported.blockedUsers),
+        allowedSubreddits: union(current.allowedSubreddits, imported.allowedSubreddits),
+        allowedAuthors: union(current.allowedAuthors, imported.allowedAuthors),
+        allowedKeywords: union(current.allowedKeywords, imported.allowedKeywords),
+        enabledPacks: union(current.enabledPacks, imported.enabledPacks),
+        packVersions: { ...imported.packVersions, ...current.packVersions },
+        categoryHideModes: { ...imported.categoryHideModes, ...current.categoryHideModes },
+        ruleHideModes: { ...imported.ruleHideModes, ...current.ruleHideModes },
+        packContents: { ...imported.packContents, ...current.packContents },
+        pinnedPacks: union(current.pinnedPacks, imported.pinnedPacks),
+        ruleSchedules: { ...imported.ruleSchedules, ...current.ruleSchedules },
+        keywordSources: { ...imported.keywordSources, ...current.keywordSources },
+        subredditSources: { ...imported.subredditSources, ...current.subredditSources }
+    };
+}
+
+// "keyword:nfl = blur", or "keyword:nfl = dim → blur" for a changed value. Values that
+// are objects (schedules, pack snapshots) only show their key.
+function describeMapEntry(key: string, value: unknown, previous?: unknown): string {
+    if (typeof value !== 'string') return key;
+    return typeof previous === 'string' ? `${key} = ${previous} → ${value}` : `${key} = ${value}`;
+}
+
+export function diffSettings(current: FilterSettings, next: FilterSettings): SettingsChange[] {
+    const changes: SettingsChange[] = [];
+
+    LIST_FIELDS.forEach(field => {
+        const before = (current[field] as string[] | undefined) || [];
+        const after = (next[field] as string[] | undefined) || [];
+        const added = after.filter(entry => !before.includes(entry));
+        const removed = before.filter(entry => !after.includes(entry));
+        if (added.length > 0 || removed.length > 0) {
+            changes.push({ field, added, removed });
+        }
+    });
+
+    MAP_FIELDS.forEach(field => {
+        const before = (current[field] as Record<string, unknown> | undefined) || {};
+        const after = (next[field] as Record<string, unknown> | undefined) || {};
+        const added = Object.keys(after).filter(key => !(key in before));
+        const removed = Object.keys(before).filter(key => !(key in after));
+        const updated = Object.keys(after)
+            .filter(key => key in before && JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+        if (added.length > 0 || removed.length > 0 || updated.length > 0) {
+            changes.push({
+                field,
+                added: added.map(key => describeMapEntry(key, after[key])),
+                removed: removed.map(key => describeMapEntry(key, before[key])),
+                updated: updated.map(key => describeMapEntry(key, after[key], before[key]))
+            });
+        }
+    });
+
+    VALUE_FIELDS.forEach(field => {
+        if (current[field] !== next[field]) {
+            changes.push({
+                field,
+                added: [],
+                removed: [],
+                changed: { from: String(current[field]), to: String(next[field]) }
+            });
+        }
+    });
+
+    return changes;
+}
@@ -1,11 +1,28 @@
+import { HideMode } from './hideMode';
+
 // Defaults now managed by filter-packs system (filter-packs.json)
 export const DEFAULT_KEYWORDS: string[] = [];
 export const DEFAULT_SUBREDDITS: string[] = [];
+export const DEFAULT_BLOCKED_USERS: string[] = [];
 
 export const DEFAULT_SETTINGS = {
     keywords: DEFAULT_KEYWORDS,
     subreddits: DEFAULT_SUBREDDITS,
+    blockedUsers: DEFAULT_BLOCKED_USERS, // usernames without the u/ prefix
     enabled: true,
     minAccountAge: 12, // default 1 year
     accountAgeFilterEnabled: false, // disabled by default to avoid infinite scroll issues
+    accountAgeConcurrency: 3, // profile lookups in flight at once, nearest posts first
+    // Further profile filters, each applied on its own; 0 / false = off
+    minPostKarma: 0,
+    minCommentKarma: 0,
+    filterUnverifiedEmail: false,
+    filterSuspendedAccounts: false, // suspended or shadowbanned
+    exemptPremiumAccounts: false,
+    commentFilterEnabled: false, // apply keyword, user and account-age rules to comments on post pages
+    // Allowlist ("never filter") rules win over every block rule
+    allowedSubreddits: [] as string[],
+    allowedAuthors: [] as string[],
+    allowedKeywords: [] as string[],
+    hideMode: 'collapse' as HideMode, // see hideMode.ts
 };
@@ -0,0 +1,28 @@
+// Normalization for list entries typed into the popup and options pages
+
+// Returns the subreddit as "r/name", or '' when nothing usable was entered
+export function normalizeSubredditName(raw: string): string {
+    const name = raw.trim().toLowerCase().replace(/^\/?r\//, '');
+    return name ? `r/${name}` : '';
+}
+
+// Returns the bare username without a "u/" prefix. Reddit usernames are case-insensitive.
+export function normalizeUsername(raw: string): string {
+    return raw.trim().toLowerCase().replace(/^\/?u(ser)?\//, '');
+}
+
+// Returns an error message for invalid usernames, or null when the name can be used
+export function validateUsername(name: string): string | null {
+    if (!/^[\w-]+$/.test(name)) {
+        return 'Usernames can only contain letters, numbers, "_" and "-"';
+    }
+    return null;
+}
+
+// Expects a name already normalized to "r/name"
+export function validateSubredditName(name: string): string | null {
+    if (!/^r\/\w+$/.test(name)) {
+        return 'Subreddit names can only contain letters, numbers and "_"';
+    }
+    return null;
+}
@@ -0,0 +1,716 @@
+import { AccountProfile, fillProfile, hasProfileSignals } from './accountAge';
+import { accountFiltersActive, accountRemoval, parseProfileSignals } from './accountProfile';
+import { BlockRequest, BlockResult, blockEntryChanges } from './blockEntry';
+import { EXPANDED_ATTRIBUTE, getCommentBody, HIDDEN_ATTRIBUTE, hideComment, hidePost, unhide } from './hide';
+import { findRulePack, HideMode, resolveHideMode } from './hideMode';
+import { compileKeywordMatcher, KeywordMatcher } from './matcher';
+import { sendToBackground } from './messages';
+import { parseAccountCreationDate } from './profileParser';
+import { addQuickActions, removeQuickActions, showToast } from './quickActions';
+import { activeRules } from './schedule';
+import { ViewportScheduler } from './viewportScheduler';
+import { HistoryEntry, RemovalCategory, removalCategory, ruleKey } from './stats';
+import { createDefaultSettings, FilterSettings } from './settings';
+
+// How often scheduled rules are checked for starting, stopping or expiring
+const SCHEDULE_CHECK_INTERVAL = 60 * 1000;
+// Account ages are checked for posts within this many viewport heights of the screen
+const AGE_CHECK_MARGIN = 1.5;
+// Reddit's author name for deleted accounts and removed posts
+const DELETED_AUTHOR = '[deleted]';
+
+export interface Post {
+    url: string;
+    title: string;
+    tagName: string;
+    subreddit: string;
+    author: string;
+    body: string;
+    flair: string;
+    domain: string; // outbound link hostname without "www.", '' for self posts
+    postType: string; // one of POST_TYPES, or Reddit's raw post-type when unknown
+    nsfw: boolean;
+    spoiler: boolean;
+    matchedKeywords: string[];
+    matchedRules: string[]; // rule keys (see stats.ts) behind removalReason
+    shouldRemove: boolean;
+    removalReason: string;
+    allowedBy: string;
+}
+
+// The content script's filtering, separate from index.ts so it can be imported without
+// starting on the page (see test/)
+export class Filter {
+    public settings: FilterSettings = createDefaultSettings();
+    private matcher: KeywordMatcher = compileKeywordMatcher([]);
+    private allowMatcher: KeywordMatcher = compileKeywordMatcher([]);
+    private activeSubreddits: string[] = [];
+    private activeRulesSignature = '';
+    private scheduleTimer: ReturnType<typeof setInterval> | null = null;
+    private loggedAllowedElements = new WeakSet<Element>();
+    // Posts and comments hidden by a list rule, checked again when schedules change
+    private ruleHiddenElements = new Set<Element>();
+    private observer: MutationObserver | null = null;
+    private ageScheduler: ViewportScheduler<Post> | null = null;
+    private pendingRuleHits: string[] = [];
+    private pendingHistory: HistoryEntry[] = [];
+    private statsFlushTimer: ReturnType<typeof setTimeout> | null = null;
+    async init() {
+        await this.loadSettings();
+        this.rebuildMatcher();
+        if (this.settings.enabled) {
+            // Account age checks only run if the account age filter is enabled; the
+            // first passes below queue the posts that pass every other filter
+            this.updateAsyncProcessor();
+
+            // For the first load, remove the posts
+            this.removePostsFirstPass();
+            this.removeCommentsFirstPass();
+            // Then set up the observer to handle infinite scrolling
+            this.setupObserver();
+
+            // Temporary and scheduled rules turn on and off while the page stays open
+            if (Object.keys(this.settings.ruleSchedules || {}).length > 0) {
+                this.scheduleTimer = setInterval(() => this.refreshSchedules(), SCHEDULE_CHECK_INTERVAL);
+            }
+        }
+    }
+
+    // Re-applies the filters when a scheduled rule became active or inactive (or expired)
+    private refreshSchedules(): void {
+        const active = activeRules(this.settings, new Date());
+        if (JSON.stringify(active) === this.activeRulesSignature) return;
+
+        console.log('⏰ Scheduled rules changed, re-applying filters');
+        this.rebuildMatcher();
+        this.revealUnmatched();
+        this.removePostsFirstPass();
+        this.removeCommentsFirstPass();
+    }
+
+    // Shows the items again that no active rule matches any more, e.g. because the rule
+    // that hid them expired or its weekly window closed. The passes that follow give
+    // them to the account checks like any other item.
+    private revealUnmatched(): void {
+        this.ruleHiddenElements.forEach(ele => {
+            if (!ele.isConnected) {
+                this.ruleHiddenElements.delete(ele);
+                return;
+            }
+            const post = ele.tagName === 'SHREDDIT-COMMENT' ? this.convertCommentToPost(ele) : this.convertElementToPost(ele);
+            if (!post.shouldRemove) {
+                unhide(ele);
+                this.ruleHiddenElements.delete(ele);
+            }
+        });
+    }
+
+    public updateAsyncProcessor(): void {
+        // Stop existing checks, cancelling lookups still waiting in the background queue
+        if (this.ageScheduler) {
+            this.ageScheduler.destroy();
+            this.ageScheduler = null;
+        }
+
+        if (accountFiltersActive(this.settings)) {
+            console.log('🔄 Starting account checks for posts near the viewport');
+            this.ageScheduler = new ViewportScheduler<Post>(
+                (element, post) => this.checkAccountAge(element, post),
+                (element, post) => this.cancelAccountAgeCheck(post),
+                {
+                    concurrency: this.settings.accountAgeConcurrency,
+                    margin: Math.round(window.innerHeight * AGE_CHECK_MARGIN)
+                }
+            );
+            // Turned on while the page is filtered: queue what is already there
+            if (this.observer) {
+                this.removePostsFirstPass();
+                this.removeCommentsFirstPass();
+            }
+        } else {
+            console.log('⏸️ Account filters disabled - account checks stopped');
+        }
+    }
+
+    // Hands a post or comment that passed every synchronous filter to the account age checks.
+    // Deleted authors have no profile to look up.
+    private queueAccountAgeCheck(ele: Element, post: Post): void {
+        if (!this.ageScheduler || !post.author || post.author === DELETED_AUTHOR) return;
+        if (post.tagName === 'SHREDDIT-POST' || post.tagName === 'SHREDDIT-COMMENT') {
+            this.ageScheduler.add(ele, post);
+        }
+    }
+
+    private async checkAccountAge(element: Element, post: Post): Promise<void> {
+        // Skip posts that have been manually expanded by the user, or hidden by another rule meanwhile
+        const articleParent = post.tagName === 'SHREDDIT-COMMENT' ? element : element.closest('article') || element;
+        if (articleParent.getAttribute(EXPANDED_ATTRIBUTE) === 'true' || articleParent.hasAttribute(HIDDEN_ATTRIBUTE)) {
+            return;
+        }
+        await this.parseAuthorFromElementCalcAge(element, post);
+    }
+
+    // The post scrolled far away before its lookup finished
+    private cancelAccountAgeCheck(post: Post): void {
+        sendToBackground({ type: 'cancelAccountLookup', username: post.author }).catch(() => {
+            // The lookup resolves either way
+        });
+    }
+
+    // Compile keyword rules once per settings load instead of once per post. Rules
+    // outside their schedule are left out until refreshSchedules() sees them start.
+    public rebuildMatcher(): void {
+        const active = activeRules(this.settings, new Date());
+        this.activeRulesSignature = JSON.stringify(active);
+        this.activeSubreddits = active.subreddits;
+        this.matcher = compileKeywordMatcher(active.keywords);
+        this.allowMatcher = compileKeywordMatcher(this.settings.allowedKeywords);
+        const invalid = [...this.matcher.invalid, ...this.allowMatcher.invalid];
+        if (invalid.length > 0) {
+            // Invalid rules are rejected at entry time, but stored data may predate that
+            console.warn(`⚠️ Skipping ${invalid.length} invalid keyword rule(s):`, invalid);
+        }
+    }
+
+    // Saves a block picked from a post's Filter menu and applies it to the page right away.
+    // The background script adds the entry to its own copy of the lists, as it does for
+    // the context menu, so a block never overwrites a newer edit. Returns the error to
+    // show in the menu, or null.
+    public async applyQuickAction(request: BlockRequest): Promise<string | null> {
+        const local = blockEntryChanges(this.settings, request);
+        if ('error' in local) return local.error;
+
+        // Applied locally first, so the settingsUpdated broadcast that follows the save
+        // matches and does not re-initialize the filter
+        const previous = this.settings;
+        this.settings = { ...this.settings, ...local.changes };
+        let result: BlockResult;
+        try {
+            result = await sendToBackground({ type: 'blockEntry', request });
+        } catch (error) {
+            this.settings = previous;
+            console.error('Error saving quick action:', error);
+            return 'Could not save the filter, try again from the popup';
+        }
+        if ('error' in result) {
+            this.settings = previous;
+            return result.error;
+        }
+        this.settings = { ...previous, ...result.changes };
+
+        console.log(`🚫 Blocked from the page: ${result.label}`);
+        showToast(`Blocked ${result.label}`);
+        this.rebuildMatcher();
+        this.removePostsFirstPass();
+        return null;
+    }
+
+    private async loadSettings(): Promise<void> {
+        try {
+            // Already migrated and validated by the background script
+            this.settings = await sendToBackground({ type: 'getSettings' });
+        } catch (error) {
+            console.log('Using default settings');
+        }
+    }
+
+    private async incrementCounters(isComment: boolean, category: RemovalCategory): Promise<void> {
+        try {
+            // The background script serializes counter writes across tabs and notifies the popup
+            await sendToBackground({ type: 'recordRemoval', isComment, category });
+        } catch (error) {
+            console.error('Failed to save counters:', error);
+        }
+    }
+
+    // Counts the removal and queues its rule hits and history entry for the next flush
+    private recordFilteredPost(post: Post): void {
+        const isComment = post.tagName === 'SHREDDIT-COMMENT';
+        this.incrementCounters(isComment, removalCategory(post.matchedRules));
+
+        const keys = [...post.matchedRules];
+        post.matchedRules.forEach(key => {
+            const packId = findRulePack(this.settings, key);
+            if (packId && !keys.includes(ruleKey('pack', packId))) {
+                keys.push(ruleKey('pack', packId));
+            }
+        });
+        this.pendingRuleHits.push(...keys);
+        this.pendingHistory.push({
+            title: post.title.slice(0, 300),
+            url: post.url,
+            reason: post.removalReason,
+            time: Date.now(),
+            kind: isComment ? 'comment' : 'post'
+        });
+
+        // Batch storage writes while the feed is loading
+        if (!this.statsFlushTimer) {
+            this.statsFlushTimer = setTimeout(() => this.flushStats(), 2000);
+        }
+    }
+
+    private async flushStats(): Promise<void> {
+        this.statsFlushTimer = null;
+        if (this.pendingHistory.length === 0) return;
+
+        const hits = this.pendingRuleHits;
+        const history = this.pendingHistory;
+        this.pendingRuleHits = [];
+        this.pendingHistory = [];
+
+        try {
+            // Merged into the stored statistics by the background script
+            await sendToBackground({ type: 'recordFilterStats', ruleHits: hits, history });
+        } catch (error) {
+            console.error('Failed to save filter statistics:', error);
+        }
+    }
+
+    private setupObserver(): void {
+        this.observer = new MutationObserver((mutations) => {
+            let shouldCheck = false;
+            let shouldCheckComments = false;
+            mutations.forEach((mutation) => {
+                mutation.addedNodes.forEach((node) => {
+                    if (node.nodeType === Node.ELEMENT_NODE) {
+                        const element = node as Element;
+                        if (element.tagName === 'ARTICLE' ||
+                            element.tagName === 'SHREDDIT-POST' ||
+                            element.querySelector('article') ||
+                            element.querySelector('shreddit-post')) {
+                            shouldCheck = true;
+                        }
+                        if (element.tagName === 'SHREDDIT-COMMENT' ||
+                            element.querySelector('shreddit-comment')) {
+                            shouldCheckComments = true;
+                        }
+                    }
+                });
+            });
+
+            if (shouldCheck) {
+                this.removePostsFirstPass();
+            }
+            if (shouldCheckComments) {
+                this.removeCommentsFirstPass();
+            }
+        });
+
+        this.observer.observe(document.body, {
+            childList: true,
+            subtree: true
+        });
+    }
+
+    public convertElementToPost(ele: Element): Post {
+        let postInstance: Post = {
+            title: '',
+            url: '',
+            subreddit: '',
+            matchedKeywords: [],
+            matchedRules: [],
+            author: '',
+            body: '',
+            flair: '',
+            domain: '',
+            postType: '',
+            nsfw: false,
+            spoiler: false,
+            tagName: ele.tagName,
+            shouldRemove: false,
+            removalReason: '',
+            allowedBy: '',
+        }
+
+        // Get post URL and title from shreddit-post attributes
+        const shredditPost = postInstance.tagName === 'SHREDDIT-POST' ? ele : ele.querySelector('shreddit-post');
+        if (shredditPost) {
+            const permalink = shredditPost.getAttribute('permalink');
+            if (permalink) {
+                postInstance.url = `https://www.reddit.com${permalink}`;
+            }
+            postInstance.title = shredditPost.getAttribute('post-title') || '';
+            postInstance.author = shredditPost.getAttribute('author') ?? '';
+            this.extractPostDetails(shredditPost, postInstance);
+        }
+
+        // Check aria-label for filter keywords (for article elements)
+        if (ele.tagName === 'ARTICLE') {
+            postInstance.title = ele.getAttribute('aria-label') || '';
+            const matchResult = this.findMatchingKeywords(postInstance);
+            if (matchResult.length > 0) {
+                postInstance.shouldRemove = true;
+                postInstance.matchedKeywords = matchResult;
+                postInstance.matchedRules = matchResult.map(keyword => ruleKey('keyword', keyword));
+                postInstance.removalReason = this.describeKeywordMatch(matchResult);
+            }
+        }
+
+        // Check subreddit name (for both article and shreddit-post elements)
+        postInstance.subreddit = (ele.getAttribute('subreddit-prefixed-name') ||
+            (shredditPost ? shredditPost.getAttribute('subreddit-prefixed-name') : '')) ?? '';
+        if (postInstance.subreddit && this.isBlockedSubreddit(postInstance.subreddit)) {
+            postInstance.shouldRemove = true;
+            postInstance.matchedRules = [ruleKey('subreddit', postInstance.subreddit.toLowerCase())];
+            postInstance.removalReason = `blocked subreddit: ${postInstance.subreddit}`;
+        }
+        // Check the author synchronously from the shreddit-post attribute
+        if (!postInstance.shouldRemove && postInstance.author && this.isBlockedUser(postInstance.author)) {
+            postInstance.shouldRemove = true;
+            postInstance.matchedRules = [ruleKey('user', postInstance.author.toLowerCase())];
+            postInstance.removalReason = `blocked user: u/${postInstance.author}`;
+        }
+        // If not filtered by subreddit or author, check for matching keyword in shreddit-post inside an article
+        if (!postInstance.shouldRemove && postInstance.tagName === 'SHREDDIT-POST') {
+            const parentArticle = ele.closest('article');
+            if (parentArticle) {
+                const ariaLabel = parentArticle.getAttribute('aria-label') || '';
+                if (!postInstance.title) postInstance.title = ariaLabel;
+                const matchResult = this.findMatchingKeywords({ ...postInstance, title: ariaLabel });
+                if (matchResult.length > 0) {
+                    postInstance.shouldRemove = true;
+                    postInstance.matchedKeywords = matchResult;
+                    postInstance.matchedRules = matchResult.map(keyword => ruleKey('keyword', keyword));
+                    postInstance.removalReason = this.describeKeywordMatch(matchResult);
+                }
+            }
+        }
+
+        // Allowlist rules win over every block reason, including the async account-age check
+        postInstance.allowedBy = this.findAllowReason(postInstance);
+        if (postInstance.allowedBy) {
+            postInstance.shouldRemove = false;
+        }
+        return postInstance;
+    }
+
+    // Reads the non-title fields that field-prefixed rules (flair:, domain:, ...) match against
+    private extractPostDetails(shredditPost: Element, post: Post): void {
+        post.postType = this.normalizePostType(shredditPost.getAttribute('post-type') || '');
+        post.nsfw = shredditPost.hasAttribute('nsfw');
+        post.spoiler = shredditPost.hasAttribute('spoiler');
+
+        const flairElement = shredditPost.querySelector('shreddit-post-flair');
+        post.flair = flairElement?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+        const bodyElement = shredditPost.querySelector('[slot="text-body"]');
+        post.body = bodyElement?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+        // content-href holds the outbound URL for link posts; domain is Reddit's own label
+        const contentHref = shredditPost.getAttribute('content-href') || '';
+        let domain = '';
+        try {
+            if (contentHref) {
+                domain = new URL(contentHref, 'https://www.reddit.com').hostname;
+            }
+        } catch (error) {
+            // Fall back to the domain attribute below
+        }
+        if (!domain) {
+            domain = shredditPost.getAttribute('domain') || '';
+        }
+        // Text posts link to their own permalink and report "self.<subreddit>", neither is an outbound domain
+        post.domain = post.postType === 'text' || domain.startsWith('self.') ? '' : domain.toLowerCase().replace(/^www\./, '');
+    }
+
+    private normalizePostType(rawType: string): string {
+        const type = rawType.toLowerCase();
+        if (type === 'gallery' || type === 'multi_media') return 'image';
+        if (type === 'self') return 'text';
+        return type;
+    }
+
+    private fetchArticleOrShredditPostsOnPage() {
+        return document.querySelectorAll('article[aria-label], shreddit-post');
+    }
+
+    private async parseAuthorFromElementCalcAge(ele: Element, post: Post) {
+        // If not filtered by keywords/subreddits, check the author's profile (only for posts and comments that would otherwise pass)
+        if (post.tagName === 'SHREDDIT-POST' || post.tagName === 'SHREDDIT-COMMENT') {
+            if (post.author) {
+                try {
+                    const profile = await this.fetchUserProfile(post.author);
+                    const removal = profile && accountRemoval(post.author, profile, this.settings, Date.now());
+                    if (removal) {
+                        post.shouldRemove = true;
+                        post.matchedRules = [removal.rule];
+                        post.removalReason = removal.reason;
+
+                        this.logPostInConsole(post);
+
+                        const isComment = post.tagName === 'SHREDDIT-COMMENT';
+                        const mode = resolveHideMode(this.settings, post.matchedRules);
+                        const wasHidden = isComment
+                            ? hideComment(ele, post.removalReason, mode)
+                            : this.hideElementOrClosestParentArticle(ele, post.removalReason, mode);
+
+                        // Increment counters only if the post was actually hidden
+                        if (wasHidden) {
+                            this.recordFilteredPost(post);
+                        }
+                    }
+                } catch (error) {
+                    console.error(`Error checking the profile of user ${post.author}:`, error);
+                }
+            }
+        }
+    }
+
+    // Post detail pages (/r/<sub>/comments/<id>/...) are opened deliberately, so only their comments are filtered
+    private isPostDetailPage(): boolean {
+        return /^\/r\/[^/]+\/comments\//.test(window.location.pathname);
+    }
+
+    private removePostsFirstPass() {
+        if (this.isPostDetailPage()) {
+            return;
+        }
+
+        const eles = this.fetchArticleOrShredditPostsOnPage();
+
+        eles.forEach((ele) => {
+            // Skip posts that have been manually expanded by the user
+            const articleParent = ele.closest('article') || ele;
+            if (articleParent.getAttribute(EXPANDED_ATTRIBUTE) === 'true') {
+                return;
+            }
+
+            // Skip posts that are already hidden to prevent re-incrementing counters
+            if (articleParent.hasAttribute(HIDDEN_ATTRIBUTE)) {
+                return;
+            }
+
+            const post = this.convertElementToPost(ele);
+
+            if (!post.shouldRemove && ele.tagName === 'SHREDDIT-POST') {
+                addQuickActions(ele, post, action => this.applyQuickAction(action));
+            }
+
+            if (post.shouldRemove) {
+                this.logPostInConsole(post);
+
+                const mode = resolveHideMode(this.settings, post.matchedRules);
+                const wasHidden = this.hideElementOrClosestParentArticle(ele, post.removalReason, mode);
+
+                // Increment counters only if post was actually hidden (not already hidden)
+                if (wasHidden) {
+                    this.ruleHiddenElements.add(ele);
+                    this.recordFilteredPost(post);
+                }
+            } else if (post.allowedBy) {
+                // Only log allowlisted posts that a block rule would otherwise have removed, once per element
+                if (post.removalReason && !this.loggedAllowedElements.has(ele)) {
+                    this.loggedAllowedElements.add(ele);
+                    this.logPostInConsole(post);
+                }
+            } else {
+                this.queueAccountAgeCheck(ele, post);
+            }
+        });
+    }
+
+    private convertCommentToPost(ele: Element): Post {
+        const commentPost: Post = {
+            title: '',
+            url: '',
+            subreddit: '',
+            matchedKeywords: [],
+            matchedRules: [],
+            author: ele.getAttribute('author') ?? '',
+            body: '',
+            flair: '',
+            domain: '',
+            postType: '',
+            nsfw: false,
+            spoiler: false,
+            tagName: ele.tagName,
+            shouldRemove: false,
+            removalReason: '',
+            allowedBy: '',
+        };
+
+        const permalink = ele.getAttribute('permalink');
+        if (permalink) {
+            commentPost.url = `https://www.reddit.com${permalink}`;
+        }
+
+        // Only read this comment's own body, not the bodies of nested replies
+        const bodyElement = getCommentBody(ele);
+        commentPost.body = bodyElement?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+        // Plain keyword rules target the title, which for a comment is its text
+        commentPost.title = commentPost.body;
+
+        if (commentPost.author && this.isBlockedUser(commentPost.author)) {
+            commentPost.shouldRemove = true;
+            commentPost.matchedRules = [ruleKey('user', commentPost.author.toLowerCase())];
+            commentPost.removalReason = `blocked user: u/${commentPost.author}`;
+        } else {
+            const matchResult = this.findMatchingKeywords(commentPost);
+            if (matchResult.length > 0) {
+                commentPost.shouldRemove = true;
+                commentPost.matchedKeywords = matchResult;
+                commentPost.matchedRules = matchResult.map(keyword => ruleKey('keyword', keyword));
+                commentPost.removalReason = this.describeKeywordMatch(matchResult);
+            }
+        }
+
+        commentPost.allowedBy = this.findAllowReason(commentPost);
+        if (commentPost.allowedBy) {
+            commentPost.shouldRemove = false;
+        }
+        return commentPost;
+    }
+
+    private removeCommentsFirstPass() {
+        if (!this.settings.commentFilterEnabled) {
+            return;
+        }
+
+        const comments = document.querySelectorAll('shreddit-comment');
+        comments.forEach((ele) => {
+            // Skip comments the user expanded and comments that are already hidden
+            if (ele.getAttribute(EXPANDED_ATTRIBUTE) === 'true' || ele.hasAttribute(HIDDEN_ATTRIBUTE)) {
+                return;
+            }
+
+            const comment = this.convertCommentToPost(ele);
+
+            if (comment.shouldRemove) {
+                this.logPostInConsole(comment);
+                if (hideComment(ele, comment.removalReason, resolveHideMode(this.settings, comment.matchedRules))) {
+                    this.ruleHiddenElements.add(ele);
+                    this.recordFilteredPost(comment);
+                }
+            } else if (!comment.allowedBy) {
+                this.queueAccountAgeCheck(ele, comment);
+            }
+        });
+    }
+
+    private hideElementOrClosestParentArticle(ele: Element, reason: string = '', mode: HideMode = 'collapse'): boolean {
+        return hidePost(ele, reason, mode);
+    }
+
+    private logPostInConsole(post: Post) {
+        console.group(post.allowedBy ? '✅ ALLOWED POST' : '🛡️ FILTERED POST');
+        console.log(`📝 Title: "${post.title}"`);
+        console.log(`🎯 Reason: ${post.removalReason}`);
+        if (post.allowedBy) {
+            console.log(`✅ Allowed by: ${post.allowedBy}`);
+        }
+        if (post.url) {
+            console.log(`🔗 URL: ${post.url}`);
+        }
+        console.log(`⏰ Time: ${new Date().toLocaleTimeString()}`);
+        console.groupEnd();
+    }
+    // Returns every matching keyword rule, including field-prefixed ones (see matcher.ts)
+    public findMatchingKeywords(post: Post): string[] {
+        return this.matcher.match(post);
+    }
+
+    private describeKeywordMatch(keywords: string[]): string {
+        const quoted = keywords.map(keyword => `"${keyword}"`).join(', ');
+        return keywords.length === 1 ? `keyword ${quoted} matched` : `keywords ${quoted} matched`;
+    }
+
+    public isBlockedSubreddit(subredditName: string): boolean {
+        const lowerSubreddit = subredditName.toLowerCase();
+        return this.activeSubreddits.some(blocked =>
+            blocked.toLowerCase() === lowerSubreddit
+        );
+    }
+
+    private isBlockedUser(username: string): boolean {
+        const lowerUsername = username.toLowerCase();
+        return this.settings.blockedUsers.some(blocked =>
+            blocked.toLowerCase() === lowerUsername
+        );
+    }
+
+    // Returns a description of the first allowlist rule the post matches, or ''
+    private findAllowReason(post: Post): string {
+        const subreddit = post.subreddit.toLowerCase();
+        if (subreddit && this.settings.allowedSubreddits.some(allowed => allowed.toLowerCase() === subreddit)) {
+            return `allowed subreddit ${post.subreddit}`;
+        }
+
+        const author = post.author.toLowerCase();
+        if (author && this.settings.allowedAuthors.some(allowed => allowed.toLowerCase() === author)) {
+            return `allowed user u/${post.author}`;
+        }
+
+        const keywords = this.allowMatcher.match(post);
+        if (keywords.length > 0) {
+            return `allowed keyword "${keywords[0]}"`;
+        }
+
+        return '';
+    }
+
+    // Profiles are cached by the background script across tabs and page loads, and
+    // fetched through its shared, rate-limited queue
+    private async fetchUserProfile(username: string): Promise<AccountProfile | null> {
+        try {
+            const lookup = await sendToBackground({ type: 'lookupAccount', username });
+            if (lookup.status === 'cached') {
+                return lookup.profile;
+            }
+            if (lookup.status === 'failed') {
+                return null;
+            }
+
+            const parsed = parseAccountCreationDate(lookup.html);
+            let profile: AccountProfile = { ...parseProfileSignals(lookup.html), createdAt: parsed?.createdAt ?? null };
+            let strategy = parsed?.strategy ?? null;
+            // Suspended accounts show no creation date, which is not the parser's fault
+            let recordParse = profile.state === 'active';
+            if (!parsed && profile.state === 'active') {
+                // Last resort, one more request through the same queue
+                const about = await sendToBackground({ type: 'lookupAccountAbout', username });
+                if (about) {
+                    profile = fillProfile(profile, about);
+                    strategy = about.createdAt !== null ? 'aboutJson' : null;
+                } else {
+                    // Rate limited, offline or cancelled: the parsers never got their answer
+                    recordParse = false;
+                }
+            }
+            if (recordParse) {
+                sendToBackground({ type: 'recordProfileParse', strategy }).catch(() => {
+                    // Health reporting is best effort
+                });
+            }
+
+            if (hasProfileSignals(profile)) {
+                await sendToBackground({ type: 'rememberAccountProfile', username, profile });
+                console.log(`✅ Fetched profile for user ${username}:`, profile);
+            }
+            return profile;
+        } catch (error) {
+            console.error(`🚫 Error looking up user profile for ${username}:`, error);
+            return null;
+        }
+    }
+
+    public destroy(): void {
+        if (this.statsFlushTimer) {
+            clearTimeout(this.statsFlushTimer);
+            this.flushStats();
+        }
+        if (this.observer) {
+            this.observer.disconnect();
+            this.observer = null;
+        }
+        if (this.ageScheduler) {
+            this.ageScheduler.destroy();
+            this.ageScheduler = null;
+        }
+        if (this.scheduleTimer) {
+            clearInterval(this.scheduleTimer);
+            this.scheduleTimer = null;
+        }
+        removeQuickActions();
+    }
+}
@@ -0,0 +1,217 @@
+import { HideMode } from './hideMode';
+
+// Hiding filtered posts and comments in the page. Reddit's own nodes are never
+// removed or cloned: they stay mounted and are hidden with inline styles, so
+// shreddit-post keeps its listeners and web-component state (votes, menus, video
+// players) and works normally after "Show". Nothing here talks to the extension,
+// so it can run on a plain test page.
+
+// Set on the hidden post (or comment) with the mode used, so each item is hidden and counted once
+export const HIDDEN_ATTRIBUTE = 'data-reddit-filter-hidden';
+// Set while the user has a hidden item shown, so the filters leave it alone
+export const EXPANDED_ATTRIBUTE = 'data-reddit-filter-expanded';
+
+// Gives a hidden item its own look back, keyed by the element carrying HIDDEN_ATTRIBUTE
+const reveals = new WeakMap<Element, () => void>();
+
+export function getCommentBody(ele: Element): HTMLElement | null {
+    return ele.querySelector(':scope > [slot="comment"]');
+}
+
+// Applies a hide mode's style to an element and returns the function that gives the
+// element its own style back
+function applyHideStyle(element: HTMLElement, mode: HideMode): () => void {
+    const original = {
+        display: element.style.display,
+        filter: element.style.filter,
+        opacity: element.style.opacity,
+        pointerEvents: element.style.pointerEvents
+    };
+    if (mode === 'blur') {
+        element.style.filter = 'blur(8px)';
+        // Blurred links and media should not be opened by accident
+        element.style.pointerEvents = 'none';
+    } else if (mode === 'dim') {
+        element.style.opacity = '0.35';
+    } else {
+        element.style.display = 'none';
+    }
+    return () => {
+        Object.assign(element.style, original);
+    };
+}
+
+function createFilterBanner(text: string, padding: string): { banner: HTMLElement; toggleButton: HTMLButtonElement } {
+    const banner = document.createElement('div');
+    banner.style.cssText = `
+        background-color: #f6f7f8;
+        border: 1px solid #edeff1;
+        border-radius: 4px;
+        padding: ${padding};
+        margin: 4px 0;
+        font-size: 12px;
+        color: #7c7c83;
+        cursor: pointer;
+        user-select: none;
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+    `;
+
+    const reasonText = document.createElement('span');
+    reasonText.textContent = text;
+
+    const toggleButton = document.createElement('button');
+    toggleButton.textContent = 'Show';
+    toggleButton.style.cssText = `
+        background: none;
+        border: 1px solid #0079d3;
+        color: #0079d3;
+        padding: 2px 8px;
+        border-radius: 2px;
+        font-size: 11px;
+        cursor: pointer;
+    `;
+
+    banner.appendChild(reasonText);
+    banner.appendChild(toggleButton);
+    return { banner, toggleButton };
+}
+
+// Wires the banner and its button to switch the hidden elements between hidden and shown.
+// Returns the function that shows them for good.
+function setupToggle(
+    target: HTMLElement,
+    banner: HTMLElement,
+    toggleButton: HTMLButtonElement,
+    hide: () => Array<() => void>
+): () => void {
+    let restores = hide();
+
+    const toggle = () => {
+        if (restores.length > 0) {
+            // Show - mark as user-expanded to prevent re-hiding
+            restores.forEach(restore => restore());
+            restores = [];
+            target.setAttribute(EXPANDED_ATTRIBUTE, 'true');
+        } else {
+            restores = hide();
+            target.removeAttribute(EXPANDED_ATTRIBUTE);
+        }
+        toggleButton.textContent = restores.length > 0 ? 'Show' : 'Hide';
+    };
+
+    banner.addEventListener('click', toggle);
+    toggleButton.addEventListener('click', (e) => {
+        e.stopPropagation();
+        toggle();
+    });
+
+    return () => {
+        restores.forEach(restore => restore());
+        restores = [];
+        banner.remove();
+    };
+}
+
+export function pauseVideos(element: HTMLElement): void {
+    // Find and pause all video elements
+    const videos = element.querySelectorAll('video');
+    videos.forEach(video => {
+        video.pause();
+        video.currentTime = 0;
+    });
+
+    // Also handle Reddit's video players
+    const redditVideos = element.querySelectorAll('shreddit-player');
+    redditVideos.forEach(player => {
+        const video = player.querySelector('video');
+        if (video) {
+            video.pause();
+            video.currentTime = 0;
+        }
+    });
+}
+
+// Hides the post's closest article (or the element itself). Returns false when the
+// element is gone or was already hidden, so a post is only counted once.
+export function hidePost(ele: Element, reason: string, mode: HideMode): boolean {
+    if (!document.contains(ele)) return false;
+
+    const article = ele.closest('article');
+    const target = (article || ele) as HTMLElement;
+
+    // Already hidden, possibly in another mode
+    if (target.hasAttribute(HIDDEN_ATTRIBUTE)) {
+        return false;
+    }
+    target.setAttribute(HIDDEN_ATTRIBUTE, mode);
+
+    // Stop video autoplay by pausing all videos in the post
+    pauseVideos(target);
+
+    if (mode === 'remove') {
+        // Nothing is left on the page to show again
+        reveals.set(target, applyHideStyle(target, mode));
+        return true;
+    }
+
+    const { banner, toggleButton } = createFilterBanner(`Post filtered: ${reason}`, '8px 12px');
+    banner.className = mode === 'collapse' ? 'reddit-filter-collapse-banner' : 'reddit-filter-obscure-banner';
+
+    // An article can hold the banner above its content. A bare shreddit-post only
+    // renders slotted children, so there the banner goes in front of the post.
+    const content = article ? Array.from(article.children) as HTMLElement[] : [target];
+    if (article) {
+        article.insertBefore(banner, article.firstChild);
+    } else {
+        target.parentNode?.insertBefore(banner, target);
+    }
+
+    reveals.set(target, setupToggle(target, banner, toggleButton, () => {
+        pauseVideos(target);
+        return content.map(element => applyHideStyle(element, mode));
+    }));
+    return true;
+}
+
+// Hides only the comment's own body. Replies are nested inside the same
+// shreddit-comment element, so hiding the element itself would hide the whole subtree.
+export function hideComment(ele: Element, reason: string, mode: HideMode): boolean {
+    if (!document.contains(ele)) return false;
+    if (ele.hasAttribute(HIDDEN_ATTRIBUTE)) return false;
+
+    const body = getCommentBody(ele);
+    if (!body) return false;
+    ele.setAttribute(HIDDEN_ATTRIBUTE, mode);
+
+    if (mode === 'remove') {
+        // Nothing is left on the page to show again
+        reveals.set(ele, applyHideStyle(body, mode));
+        return true;
+    }
+
+    const { banner, toggleButton } = createFilterBanner(`Comment filtered: ${reason}`, '6px 10px');
+    banner.className = 'reddit-filter-comment-banner';
+    // shreddit-comment renders light DOM children through named slots
+    banner.setAttribute('slot', 'comment');
+    ele.insertBefore(banner, body);
+
+    reveals.set(ele, setupToggle(ele as HTMLElement, banner, toggleButton, () => [applyHideStyle(body, mode)]));
+    return true;
+}
+
+// Shows a post or comment hidden by hidePost() or hideComment() again, as if it had never
+// been filtered, e.g. once the rule that hid it is outside its schedule. Returns false
+// when the item was not hidden.
+export function unhide(ele: Element): boolean {
+    const target = reveals.has(ele) ? ele : ele.closest('article');
+    const reveal = target ? reveals.get(target) : undefined;
+    if (!target || !reveal) return false;
+
+    reveal();
+    reveals.delete(target);
+    target.removeAttribute(HIDDEN_ATTRIBUTE);
+    target.removeAttribute(EXPANDED_ATTRIBUTE);
+    return true;
+}
@@ -0,0 +1,39 @@
+import { FilterSettings } from './settings';
+import { parseRuleKey, removalCategory, ruleKey } from './stats';
+
+// How a filtered post or comment is hidden. Collapse swaps it for a banner with a
+// Show button, remove hides it without a trace, blur and dim leave it in place but
+// obscured, with a Show button above it.
+export type HideMode = 'collapse' | 'remove' | 'blur' | 'dim';
+
+export const HIDE_MODES: HideMode[] = ['collapse', 'remove', 'blur', 'dim'];
+
+export const HIDE_MODE_LABELS: Record<HideMode, string> = {
+    collapse: 'Collapse to a banner',
+    remove: 'Remove entirely',
+    blur: 'Blur',
+    dim: 'Dim'
+};
+
+export function isHideMode(value: unknown): value is HideMode {
+    return HIDE_MODES.includes(value as HideMode);
+}
+
+// The packId a keyword or subreddit rule came from, if any
+export function findRulePack(settings: FilterSettings, key: string): string | undefined {
+    const { kind, value } = parseRuleKey(key);
+    if (kind === 'keyword') return settings.keywordSources?.[value];
+    if (kind === 'subreddit') return settings.subredditSources?.[value];
+    return undefined;
+}
+
+// The rule named in the removal reason decides: its own mode wins, then the mode of
+// the pack it came from, then the mode of its category, then the default.
+export function resolveHideMode(settings: FilterSettings, matchedRules: string[]): HideMode {
+    const key = matchedRules[0] || '';
+    const packId = findRulePack(settings, key);
+    return settings.ruleHideModes?.[key]
+        || (packId ? settings.ruleHideModes?.[ruleKey('pack', packId)] : undefined)
+        || settings.categoryHideModes?.[removalCategory(matchedRules)]
+        || settings.hideMode;
+}
@@ -0,0 +1,160 @@
+// Keyword rules are stored as plain strings in FilterSettings.keywords so that
+// existing lists and pack sources keep working. The string syntax decides the type:
+//   trump           -> word  (whole-word match, same as before)
+//   trump*, ele?t   -> glob  (* = any run of non-space characters, ? = one character)
+//   /elect(ion|ed)/ -> regex (case-insensitive JavaScript regular expression)
+//
+// An optional field prefix targets something other than the post title:
+//   body:spoiler, flair:Meme, domain:twitter.com, type:video, is:nsfw
+
+export type KeywordRuleType = 'word' | 'glob' | 'regex';
+
+export type KeywordField = 'title' | 'body' | 'flair' | 'domain' | 'type' | 'is';
+
+export const KEYWORD_FIELDS: KeywordField[] = ['title', 'body', 'flair', 'domain', 'type', 'is'];
+export const POST_TYPES = ['image', 'video', 'link', 'text'];
+export const POST_FLAGS = ['nsfw', 'spoiler'];
+
+export interface KeywordRule {
+    raw: string;
+    field: KeywordField;
+    type: KeywordRuleType;
+    pattern: string;
+}
+
+const REGEX_RULE = /^\/(.+)\/$/;
+const FIELD_PREFIX = new RegExp(`^(${KEYWORD_FIELDS.join('|')}):(.*)$`, 'i');
+
+export function parseKeywordRule(raw: string): KeywordRule {
+    const value = raw.trim();
+
+    let field: KeywordField = 'title';
+    let body = value;
+    const fieldMatch = value.match(FIELD_PREFIX);
+    if (fieldMatch) {
+        field = fieldMatch[1].toLowerCase() as KeywordField;
+        body = fieldMatch[2].trim();
+    }
+
+    const regexMatch = body.match(REGEX_RULE);
+    if (regexMatch) {
+        return { raw: value, field, type: 'regex', pattern: regexMatch[1] };
+    }
+    if (/[*?]/.test(body)) {
+        return { raw: value, field, type: 'glob', pattern: body };
+    }
+    return { raw: value, field, type: 'word', pattern: body };
+}
+
+// Lowercase word and glob rules like the old keyword flow did. Regex rules keep
+// their case because escapes such as \S, \W and \B change meaning when lowercased.
+export function normalizeKeywordRule(raw: string): string {
+    const rule = parseKeywordRule(raw);
+    const prefix = rule.field === 'title' && !FIELD_PREFIX.test(rule.raw) ? '' : `${rule.field}:`;
+    if (rule.type === 'regex') {
+        return `${prefix}/${rule.pattern}/`;
+    }
+    return `${prefix}${rule.pattern.toLowerCase()}`;
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function globToRegexSource(glob: string, anyChar: string): string {
+    return glob
+        .split('')
+        .map(char => {
+            if (char === '*') return `${anyChar}*`;
+            if (char === '?') return anyChar;
+            return escapeRegex(char);
+        })
+        .join('');
+}
+
+export function keywordRuleToRegexSource(rule: KeywordRule): string {
+    if (rule.type === 'regex') {
+        return rule.pattern;
+    }
+
+    if (rule.field === 'domain') {
+        // domain:twitter.com also matches subdomains such as mobile.twitter.com
+        const domain = rule.type === 'glob' ? globToRegexSource(rule.pattern, '[^.\\s]') : escapeRegex(rule.pattern);
+        return `^(?:[^.\\s]+\\.)*${domain}$`;
+    }
+
+    if (rule.type === 'glob') {
+        return `\\b${globToRegexSource(rule.pattern, '\\S')}\\b`;
+    }
+
+    // Use word boundaries to match whole words only
+    return `\\b${escapeRegex(rule.pattern)}\\b`;
+}
+
+// Returns an error message for invalid rules, or null when the rule can be used.
+export function validateKeywordRule(raw: string): string | null {
+    const rule = parseKeywordRule(raw);
+    if (!rule.pattern) {
+        return rule.field === 'title' ? 'Keyword cannot be empty' : `"${rule.field}:" needs a value`;
+    }
+
+    if (rule.type === 'glob' && !/[^*?\s]/.test(rule.pattern)) {
+        return 'Wildcard needs at least one literal character';
+    }
+
+    if (rule.field === 'type' && !POST_TYPES.includes(rule.pattern.toLowerCase())) {
+        return `Post type must be one of: ${POST_TYPES.join(', ')}`;
+    }
+
+    if (rule.field === 'is' && !POST_FLAGS.includes(rule.pattern.toLowerCase())) {
+        return `"is:" must be one of: ${POST_FLAGS.join(', ')}`;
+    }
+
+    if (rule.field === 'domain' && rule.type !== 'regex' && !/^[\w*?-]+(\.[\w*?-]+)+$/.test(rule.pattern)) {
+        return 'Domain should look like example.com';
+    }
+
+    let regex: RegExp;
+    try {
+        regex = new RegExp(keywordRuleToRegexSource(rule), 'i');
+    } catch (error) {
+        return `Invalid regex: ${(error as Error).message}`;
+    }
+
+    if (regex.test('')) {
+        return 'Pattern matches empty text and would filter every post';
+    }
+
+    return null;
+}
+
+export function compileKeywordRule(rule: KeywordRule): RegExp | null {
+    try {
+        return new RegExp(keywordRuleToRegexSource(rule), 'i');
+    } catch (error) {
+        return null;
+    }
+}
+
+export function describeKeywordRuleType(type: KeywordRuleType): string {
+    switch (type) {
+        case 'regex':
+            return 'regex';
+        case 'glob':
+            return 'wildcard';
+        default:
+            return 'word';
+    }
+}
+
+// Short label for the list badge, or '' for plain title words
+export function describeKeywordRule(rule: KeywordRule): string {
+    const parts: string[] = [];
+    if (rule.field !== 'title') {
+        parts.push(rule.field);
+    }
+    if (rule.type !== 'word') {
+        parts.push(describeKeywordRuleType(rule.type));
+    }
+    return parts.join(' · ');
+}
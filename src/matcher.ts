@@ -0,0 +1,196 @@
+import { compileKeywordRule, KeywordField, KeywordRule, keywordRuleToRegexSource, parseKeywordRule } from './keywordRules';
+
+// Compiled keyword matcher. Built once per settings load instead of constructing a
+// RegExp per keyword per post. Rules are grouped by the post field they target.
+// Within a field, plain word rules go into a character trie that is walked from
+// every word boundary; wildcard rules share one combined prefilter regex; regex
+// rules are compiled individually since they may use backreferences.
+
+// The post fields rules can target. Only the title is required.
+export interface MatchFields {
+    title: string;
+    body?: string;
+    flair?: string;
+    domain?: string;
+    postType?: string;
+    nsfw?: boolean;
+    spoiler?: boolean;
+}
+
+interface TrieNode {
+    children: Map<string, TrieNode>;
+    keywords: string[];
+}
+
+export interface KeywordMatcher {
+    readonly size: number;
+    readonly invalid: string[];
+    match(fields: MatchFields): string[];
+}
+
+function createNode(): TrieNode {
+    return { children: new Map(), keywords: [] };
+}
+
+// Same character class as \w: [A-Za-z0-9_]
+function isWordChar(char: string | undefined): boolean {
+    if (char === undefined) return false;
+    const code = char.charCodeAt(0);
+    return (code >= 48 && code <= 57) ||
+        (code >= 65 && code <= 90) ||
+        (code >= 97 && code <= 122) ||
+        code === 95;
+}
+
+// Mirrors the semantics of \b at position `index` of `text`
+function isBoundary(text: string, index: number): boolean {
+    return isWordChar(text[index - 1]) !== isWordChar(text[index]);
+}
+
+function fieldText(fields: MatchFields, field: KeywordField): string {
+    switch (field) {
+        case 'body':
+            return fields.body || '';
+        case 'flair':
+            return fields.flair || '';
+        case 'domain':
+            return fields.domain || '';
+        case 'type':
+            return fields.postType || '';
+        case 'is':
+            return [fields.nsfw ? 'nsfw' : '', fields.spoiler ? 'spoiler' : ''].join(' ').trim();
+        default:
+            return fields.title;
+    }
+}
+
+// Matches the rules for a single field against that field's text
+class FieldMatcher {
+    private root: TrieNode = createNode();
+    private wordCount = 0;
+    private globSources: string[] = [];
+    private globPrefilter: RegExp | null = null;
+    private globRules: Array<{ keyword: string; regex: RegExp }> = [];
+    private regexRules: Array<{ keyword: string; regex: RegExp }> = [];
+
+    get size(): number {
+        return this.wordCount + this.globRules.length + this.regexRules.length;
+    }
+
+    // Returns false when the rule cannot be compiled
+    add(rule: KeywordRule): boolean {
+        // Domain rules are anchored to the whole hostname, so they skip the trie
+        if (rule.type === 'word' && rule.field !== 'domain') {
+            this.insertWord(rule.pattern.toLowerCase(), rule.raw);
+            return true;
+        }
+
+        const regex = compileKeywordRule(rule);
+        if (!regex) {
+            return false;
+        }
+
+        if (rule.type === 'glob' && rule.field !== 'domain') {
+            this.globRules.push({ keyword: rule.raw, regex });
+            this.globSources.push(`(?:${keywordRuleToRegexSource(rule)})`);
+            this.globPrefilter = null;
+        } else {
+            this.regexRules.push({ keyword: rule.raw, regex });
+        }
+        return true;
+    }
+
+    match(text: string, matches: Set<string>): void {
+        if (!text) return;
+
+        this.matchWords(text.toLowerCase(), matches);
+
+        if (this.globRules.length > 0) {
+            if (!this.globPrefilter) {
+                this.globPrefilter = new RegExp(this.globSources.join('|'), 'i');
+            }
+            if (this.globPrefilter.test(text)) {
+                for (const { keyword, regex } of this.globRules) {
+                    if (regex.test(text)) matches.add(keyword);
+                }
+            }
+        }
+
+        for (const { keyword, regex } of this.regexRules) {
+            if (regex.test(text)) matches.add(keyword);
+        }
+    }
+
+    private insertWord(word: string, keyword: string): void {
+        let node = this.root;
+        // Index by UTF-16 code unit so insertion and lookup walk the same units
+        for (let i = 0; i < word.length; i++) {
+            let next = node.children.get(word[i]);
+            if (!next) {
+                next = createNode();
+                node.children.set(word[i], next);
+            }
+            node = next;
+        }
+        if (!node.keywords.includes(keyword)) {
+            node.keywords.push(keyword);
+            this.wordCount++;
+        }
+    }
+
+    private matchWords(text: string, matches: Set<string>): void {
+        if (this.wordCount === 0) return;
+
+        for (let start = 0; start < text.length; start++) {
+            if (!isBoundary(text, start)) continue;
+
+            let node: TrieNode | undefined = this.root;
+            for (let i = start; i < text.length; i++) {
+                node = node.children.get(text[i]);
+                if (!node) break;
+                if (node.keywords.length > 0 && isBoundary(text, i + 1)) {
+                    node.keywords.forEach(keyword => matches.add(keyword));
+                }
+            }
+        }
+    }
+}
+
+class CompiledKeywordMatcher implements KeywordMatcher {
+    public readonly invalid: string[] = [];
+    private fields = new Map<KeywordField, FieldMatcher>();
+
+    constructor(keywords: string[]) {
+        for (const keyword of keywords) {
+            const rule = parseKeywordRule(keyword);
+            if (!rule.pattern) continue;
+
+            let fieldMatcher = this.fields.get(rule.field);
+            if (!fieldMatcher) {
+                fieldMatcher = new FieldMatcher();
+                this.fields.set(rule.field, fieldMatcher);
+            }
+            if (!fieldMatcher.add(rule)) {
+                this.invalid.push(keyword);
+            }
+        }
+    }
+
+    get size(): number {
+        let size = 0;
+        this.fields.forEach(fieldMatcher => size += fieldMatcher.size);
+        return size;
+    }
+
+    match(fields: MatchFields): string[] {
+        const matches = new Set<string>();
+        this.fields.forEach((fieldMatcher, field) => {
+            fieldMatcher.match(fieldText(fields, field), matches);
+        });
+        return Array.from(matches);
+    }
+}
+
+export function compileKeywordMatcher(keywords: string[]): KeywordMatcher {
+    return new CompiledKeywordMatcher(keywords);
+}
@@ -0,0 +1,130 @@
+import browser from 'webextension-polyfill';
+import { AccountLookup, AccountProfile } from './accountAge';
+import { BlockRequest, BlockResult } from './blockEntry';
+import { PackSubscribeResult, PackSubscription } from './packs';
+import { CreationDateStrategy, ParserHealth } from './profileParser';
+import { FilterSettings } from './settings';
+import { SyncStatus } from './sync';
+import { DailySeries, HistoryEntry, RemovalCategory } from './stats';
+
+// Message protocol between the background script and the content script, popup and
+// options page. The background script owns filterSettings and filterCounters: pages
+// ask it for the current values, send it their changes, and hear about every change
+// through a broadcast.
+
+// The stored filterCounters object
+export interface StoredCounters {
+    totalRemoved: number;
+    dailyRemoved: number;
+    totalCommentsRemoved: number;
+    dailyCommentsRemoved: number;
+    lastResetDate: string;
+    dailySeries: DailySeries; // per-day counts by category, kept for DAILY_SERIES_DAYS
+}
+
+// Requests handled by the background script
+export type BackgroundRequest =
+    | { type: 'getSettings' }
+    | { type: 'updateSettings'; changes: Partial<FilterSettings> }
+    | { type: 'blockEntry'; request: BlockRequest } // from a post's Filter menu
+    | { type: 'getCounters' }
+    | { type: 'recordRemoval'; isComment: boolean; category: RemovalCategory }
+    | { type: 'recordFilterStats'; ruleHits: string[]; history: HistoryEntry[] }
+    | { type: 'clearRuleStats' }
+    | { type: 'clearHistory' }
+    | { type: 'getSyncStatus' }
+    | { type: 'setSyncEnabled'; enabled: boolean }
+    | { type: 'syncNow' }
+    | { type: 'subscribePack'; url: string }
+    | { type: 'importPackFile'; pack: unknown; packId?: string } // packId replaces that file pack
+    | { type: 'unsubscribePack'; packId: string }
+    | { type: 'refreshPacks' }
+    | { type: 'lookupAccount'; username: string }
+    | { type: 'rememberAccountProfile'; username: string; profile: AccountProfile } // parsed from a fetched profile
+    | { type: 'lookupAccountAbout'; username: string } // when the profile header had no creation date
+    | { type: 'recordProfileParse'; strategy: CreationDateStrategy | null } // null: every strategy failed
+    | { type: 'getParserHealth' }
+    | { type: 'cancelAccountLookup'; username: string };
+
+// What each request resolves to
+export interface BackgroundResponses {
+    getSettings: FilterSettings;
+    updateSettings: FilterSettings;
+    blockEntry: BlockResult;
+    getCounters: StoredCounters;
+    recordRemoval: StoredCounters;
+    recordFilterStats: void;
+    clearRuleStats: void;
+    clearHistory: void;
+    getSyncStatus: SyncStatus;
+    setSyncEnabled: SyncStatus;
+    syncNow: SyncStatus;
+    subscribePack: PackSubscribeResult;
+    importPackFile: PackSubscribeResult;
+    unsubscribePack: void;
+    refreshPacks: Record<string, PackSubscription>;
+    lookupAccount: AccountLookup;
+    rememberAccountProfile: void;
+    lookupAccountAbout: AccountProfile | null;
+    recordProfileParse: void;
+    getParserHealth: ParserHealth;
+    cancelAccountLookup: void;
+}
+
+// Sent by the background script to every Reddit tab and open extension page
+export type BroadcastMessage =
+    | { type: 'settingsUpdated'; settings: FilterSettings }
+    | { type: 'countersUpdated'; counters: StoredCounters };
+
+// Sent by the background script to the content script of a single tab
+export type ContentMessage =
+    | { type: 'showToast'; text: string; isError: boolean };
+
+const REQUEST_TYPES: Array<BackgroundRequest['type']> = [
+    'getSettings',
+    'updateSettings',
+    'blockEntry',
+    'getCounters',
+    'recordRemoval',
+    'recordFilterStats',
+    'clearRuleStats',
+    'clearHistory',
+    'getSyncStatus',
+    'setSyncEnabled',
+    'syncNow',
+    'subscribePack',
+    'importPackFile',
+    'unsubscribePack',
+    'refreshPacks',
+    'lookupAccount',
+    'rememberAccountProfile',
+    'lookupAccountAbout',
+    'recordProfileParse',
+    'getParserHealth',
+    'cancelAccountLookup'
+];
+
+const BROADCAST_TYPES: Array<BroadcastMessage['type']> = ['settingsUpdated', 'countersUpdated'];
+
+const CONTENT_TYPES: Array<ContentMessage['type']> = ['showToast'];
+
+function hasType(message: unknown, types: string[]): boolean {
+    return typeof message === 'object' && message !== null &&
+        types.includes((message as { type?: unknown }).type as string);
+}
+
+export function isBackgroundRequest(message: unknown): message is BackgroundRequest {
+    return hasType(message, REQUEST_TYPES);
+}
+
+export function isBroadcastMessage(message: unknown): message is BroadcastMessage {
+    return hasType(message, BROADCAST_TYPES);
+}
+
+export function isContentMessage(message: unknown): message is ContentMessage {
+    return hasType(message, CONTENT_TYPES);
+}
+
+export function sendToBackground<T extends BackgroundRequest>(request: T): Promise<BackgroundResponses[T['type']]> {
+    return browser.runtime.sendMessage(request) as Promise<BackgroundResponses[T['type']]>;
+}
@@ -1,55 +1,218 @@
 import './options.css';
 import browser from 'webextension-polyfill';
 import { DEFAULT_SETTINGS } from '../defaults';
-
-interface FilterSettings {
-    keywords: string[];
-    subreddits: string[];
-    enabled: boolean;
-    minAccountAge: number;
-    accountAgeFilterEnabled: boolean;
-}
+import { ACCOUNT_RULE_LABELS, activeAccountRules } from '../accountProfile';
+import { normalizeUsername, validateUsername } from '../entries';
+import {
+    applyImport,
+    configFileName,
+    createConfigFile,
+    diffSettings,
+    ExportedPack,
+    ImportMode,
+    parseConfigFile,
+    removePacks,
+    renamePack,
+    SettingsChange,
+    unknownPackIds
+} from '../configFile';
+import { ALLOWLISTS, AllowlistType, normalizeAllowlistEntry, validateAllowlistEntry } from '../allowlist';
+import { HIDE_MODE_LABELS, HIDE_MODES, HideMode, isHideMode } from '../hideMode';
+import { describeKeywordRule, normalizeKeywordRule, parseKeywordRule, validateKeywordRule } from '../keywordRules';
+import { isBroadcastMessage, sendToBackground } from '../messages';
+import {
+    allPacks,
+    BUNDLED_PACKS,
+    bumpVersion,
+    claimPackItems,
+    FilterPack,
+    PACK_SUBSCRIPTIONS_KEY,
+    packContents,
+    packFileName,
+    PackSubscription,
+    validateFilterPack
+} from '../packs';
+import { DailySeries, emptyBreakdown, HISTORY_KEY, HistoryEntry, localDateKey, parseRuleKey, REMOVAL_CATEGORIES, RemovalCategory, RULE_STATS_KEY, ruleKey, RuleHitStats, RuleKind } from '../stats';
+import { broadcastChanges, changedSettings, copySettings, createDefaultSettings, FilterSettings, MAX_AGE_CONCURRENCY, MAX_MIN_KARMA, MIN_AGE_CONCURRENCY } from '../settings';
+import { SYNC_STATE_KEY, SyncStatus } from '../sync';
 
 interface FilterCounters {
     totalRemoved: number;
     dailyRemoved: number;
+    totalCommentsRemoved: number;
+    dailyCommentsRemoved: number;
     lastResetDate: string;
+    dailySeries: DailySeries;
+}
+
+interface RuleStatsRow {
+    key: string;
+    kind: RuleKind;
+    value: string;
+    label: string;
+    hits: number;
+    lastHit: number;
+    addedAt: number; // 0 when unknown
 }
 
+type RuleStatsSortColumn = 'rule' | 'kind' | 'hits' | 'lastHit';
+
+const DEAD_RULE_DAYS = 30;
+
+const RULE_KIND_LABELS: Record<RuleKind, string> = {
+    keyword: 'Keyword',
+    subreddit: 'Subreddit',
+    user: 'User',
+    pack: 'Pack',
+    filter: 'Filter'
+};
+
+const REMOVAL_CATEGORY_LABELS: Record<RemovalCategory, string> = {
+    keyword: 'Keyword',
+    subreddit: 'Subreddit',
+    user: 'User',
+    accountAge: 'Account filters'
+};
+
+// Checkbox ids match the settings they toggle
+const PROFILE_FILTER_FLAGS = ['filterUnverifiedEmail', 'filterSuspendedAccounts', 'exemptPremiumAccounts'] as const;
+const KARMA_INPUTS = { minPostKarmaInput: 'minPostKarma', minCommentKarmaInput: 'minCommentKarma' } as const;
+
+const ALLOWLIST_TYPES: AllowlistType[] = ['subreddits', 'authors', 'keywords'];
+
+// Element id prefix for each allowlist section in options.html
+const ALLOWLIST_ELEMENT_PREFIXES: Record<AllowlistType, string> = {
+    subreddits: 'allowedSubreddit',
+    authors: 'allowedAuthor',
+    keywords: 'allowedKeyword'
+};
+
 class OptionsManager {
     private settings: FilterSettings;
+    private savedSettings: FilterSettings; // as last loaded, saved or broadcast
+    private savingFields: Map<keyof FilterSettings, number>; // saves not answered yet, per field
     private counters: FilterCounters;
     private filteredKeywords: string[];
     private filteredSubreddits: string[];
+    private filteredUsers: string[];
+    private filteredAllowlists: Record<AllowlistType, string[]>;
+    private filterPacks: Record<string, FilterPack>;
+    private packSubscriptions: Record<string, PackSubscription>;
+    private editingPackId: string | null; // file pack open in the pack editor, null for a new pack
+    private packEditorSelection: { keywords: Set<string>; subreddits: Set<string> };
+    private ruleStats: RuleHitStats;
+    private history: HistoryEntry[];
+    private pendingImport: FilterSettings | null;
+    private pendingImportPacks: Record<string, ExportedPack>; // subscriptions carried in the file
+    private ruleStatsView: 'all' | 'dead';
+    private dailyChartDays: number;
+    private ruleStatsSort: { column: RuleStatsSortColumn; direction: 'asc' | 'desc' };
 
     constructor() {
-        this.settings = DEFAULT_SETTINGS;
-        this.counters = { totalRemoved: 0, dailyRemoved: 0, lastResetDate: new Date().toDateString() };
+        this.settings = createDefaultSettings();
+        this.savedSettings = copySettings(this.settings);
+        this.savingFields = new Map();
+        this.counters = {
+            totalRemoved: 0,
+            dailyRemoved: 0,
+            totalCommentsRemoved: 0,
+            dailyCommentsRemoved: 0,
+            lastResetDate: new Date().toDateString(),
+            dailySeries: {}
+        };
         this.filteredKeywords = [...DEFAULT_SETTINGS.keywords];
         this.filteredSubreddits = [...DEFAULT_SETTINGS.subreddits];
+        this.filteredUsers = [...DEFAULT_SETTINGS.blockedUsers];
+        this.filteredAllowlists = { subreddits: [], authors: [], keywords: [] };
+        this.filterPacks = { ...BUNDLED_PACKS };
+        this.packSubscriptions = {};
+        this.editingPackId = null;
+        this.packEditorSelection = { keywords: new Set(), subreddits: new Set() };
+        this.ruleStats = {};
+        this.history = [];
+        this.pendingImport = null;
+        this.pendingImportPacks = {};
+        this.ruleStatsView = 'all';
+        this.dailyChartDays = 30;
+        this.ruleStatsSort = { column: 'hits', direction: 'desc' };
         this.init();
     }
 
     async init(): Promise<void> {
         await this.loadSettings();
         await this.loadCounters();
+        await this.loadFilterStats();
+        await this.loadSyncStatus();
+        await this.loadPackSubscriptions();
         this.setupEventListeners();
+        this.renderPackEditorSelect();
         this.renderAll();
         this.updateAllStats();
         this.updateCounterDisplay();
+        this.renderDailyChart();
     }
 
-    async loadSettings(): Promise<void> {
+    async loadPackSubscriptions(): Promise<void> {
+        const result = await browser.storage.local.get(PACK_SUBSCRIPTIONS_KEY);
+        this.packSubscriptions = (result[PACK_SUBSCRIPTIONS_KEY] || {}) as Record<string, PackSubscription>;
+        this.filterPacks = allPacks(this.packSubscriptions);
+    }
+
+    async loadSyncStatus(): Promise<void> {
         try {
-            const result = await browser.storage.local.get(['filterSettings']);
-            if (result.filterSettings) {
-                this.settings = result.filterSettings as FilterSettings;
+            this.renderSyncStatus(await sendToBackground({ type: 'getSyncStatus' }));
+        } catch (error) {
+            console.error('Failed to load sync status:', error);
+        }
+    }
+
+    renderSyncStatus(status: SyncStatus): void {
+        const syncEl = document.getElementById('enableSync') as HTMLInputElement;
+        if (syncEl) {
+            syncEl.checked = status.enabled;
+        }
+
+        const syncNowBtn = document.getElementById('syncNowBtn') as HTMLButtonElement;
+        if (syncNowBtn) {
+            syncNowBtn.disabled = !status.enabled;
+        }
+
+        const statusEl = document.getElementById('syncStatus');
+        if (statusEl) {
+            if (!status.enabled) {
+                statusEl.textContent = 'Sync is off';
+            } else if (status.lastSyncedAt) {
+                statusEl.textContent = `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}`;
             } else {
-                await this.saveSettings();
+                statusEl.textContent = 'Not synced yet';
             }
+        }
+
+        const errorEl = document.getElementById('syncError');
+        if (errorEl) {
+            errorEl.textContent = status.lastError ? `Sync failed: ${status.lastError}` : '';
+            errorEl.style.display = status.lastError ? 'block' : 'none';
+        }
+    }
+
+    async loadFilterStats(): Promise<void> {
+        try {
+            const result = await browser.storage.local.get([RULE_STATS_KEY, HISTORY_KEY]);
+            this.ruleStats = (result[RULE_STATS_KEY] as RuleHitStats) || {};
+            this.history = (result[HISTORY_KEY] as HistoryEntry[]) || [];
+        } catch (error) {
+            console.error('Failed to load filter statistics:', error);
+        }
+    }
+
+    async loadSettings(): Promise<void> {
+        try {
+            // Already migrated and validated by the background script
+            this.settings = await sendToBackground({ type: 'getSettings' });
         } catch (error) {
             console.error('Failed to load settings:', error);
         }
+        this.savedSettings = copySettings(this.settings);
 
         const enableFilterEl = document.getElementById('enableFilter') as HTMLInputElement;
         if (enableFilterEl) {
@@ -57,52 +220,78 @@ class OptionsManager {
         }
         this.filteredKeywords = [...this.settings.keywords];
         this.filteredSubreddits = [...this.settings.subreddits];
+        this.filteredUsers = [...this.settings.blockedUsers];
+        ALLOWLIST_TYPES.forEach(type => {
+            this.filteredAllowlists[type] = [...this.settings[ALLOWLISTS[type].settingsKey]];
+        });
 
         const accountAgeFilterEl = document.getElementById('enableAccountAgeFilter') as HTMLInputElement;
         if (accountAgeFilterEl) {
             accountAgeFilterEl.checked = this.settings.accountAgeFilterEnabled || false;
         }
 
+        const commentFilterEl = document.getElementById('enableCommentFilter') as HTMLInputElement;
+        if (commentFilterEl) {
+            commentFilterEl.checked = this.settings.commentFilterEnabled || false;
+        }
+
         const ageSlider = document.getElementById('ageSlider') as HTMLInputElement;
         if (ageSlider) {
             ageSlider.value = String(this.settings.minAccountAge || 12);
             this.updateAgeDisplay(this.settings.minAccountAge || 12);
         }
 
+        const ageConcurrencyInput = document.getElementById('ageConcurrencyInput') as HTMLInputElement;
+        if (ageConcurrencyInput) {
+            ageConcurrencyInput.value = String(this.settings.accountAgeConcurrency);
+        }
+
+        Object.entries(KARMA_INPUTS).forEach(([id, key]) => {
+            const input = document.getElementById(id) as HTMLInputElement;
+            if (input) {
+                input.value = String(this.settings[key]);
+            }
+        });
+
+        PROFILE_FILTER_FLAGS.forEach(key => {
+            const checkbox = document.getElementById(key) as HTMLInputElement;
+            if (checkbox) {
+                checkbox.checked = this.settings[key];
+            }
+        });
+
         this.updateAccountAgeFilterUI();
     }
 
     async loadCounters(): Promise<void> {
         try {
-            const result = await browser.storage.local.get(['filterCounters']);
-            if (result.filterCounters) {
-                this.counters = result.filterCounters as FilterCounters;
-
-                const today = new Date().toDateString();
-                if (this.counters.lastResetDate !== today) {
-                    this.counters.dailyRemoved = 0;
-                    this.counters.lastResetDate = today;
-                    await this.saveCounters();
-                }
-            }
+            // Daily counters are reset by the background script when the day changes
+            this.counters = await sendToBackground({ type: 'getCounters' });
         } catch (error) {
             console.error('Failed to load counters:', error);
         }
     }
 
     async saveSettings(): Promise<void> {
+        const changes = changedSettings(this.savedSettings, this.settings);
+        const fields = Object.keys(changes) as Array<keyof FilterSettings>;
+        if (fields.length === 0) return;
+        this.savedSettings = copySettings(this.settings);
+        fields.forEach(field => this.savingFields.set(field, (this.savingFields.get(field) || 0) + 1));
         try {
-            await browser.storage.local.set({ filterSettings: this.settings });
+            // The background script stores the settings and notifies every Reddit tab
+            await sendToBackground({ type: 'updateSettings', changes });
         } catch (error) {
             console.error('Failed to save settings:', error);
-        }
-    }
-
-    async saveCounters(): Promise<void> {
-        try {
-            await browser.storage.local.set({ filterCounters: this.counters });
-        } catch (error) {
-            console.error('Failed to save counters:', error);
+        } finally {
+            fields.forEach(field => {
+                const count = (this.savingFields.get(field) || 1) - 1;
+                if (count > 0) {
+                    this.savingFields.set(field, count);
+                } else {
+                    this.savingFields.delete(field);
+                }
+            });
         }
     }
 
@@ -117,6 +306,16 @@ class OptionsManager {
         if (dailyElement) {
             dailyElement.textContent = this.counters.dailyRemoved.toLocaleString();
         }
+
+        const totalCommentsElement = document.getElementById('totalCommentsCounter');
+        if (totalCommentsElement) {
+            totalCommentsElement.textContent = this.counters.totalCommentsRemoved.toLocaleString();
+        }
+
+        const dailyCommentsElement = document.getElementById('dailyCommentsCounter');
+        if (dailyCommentsElement) {
+            dailyCommentsElement.textContent = this.counters.dailyCommentsRemoved.toLocaleString();
+        }
     }
 
     setupEventListeners(): void {
@@ -151,6 +350,9 @@ class OptionsManager {
                     this.addKeyword();
                 }
             });
+            keywordAddInput.addEventListener('input', () => {
+                this.showKeywordError(null);
+            });
         }
 
         const subredditSearchInput = document.getElementById('subredditSearchInput') as HTMLInputElement;
@@ -177,6 +379,35 @@ class OptionsManager {
             });
         }
 
+        const userSearchInput = document.getElementById('userSearchInput') as HTMLInputElement;
+        if (userSearchInput) {
+            userSearchInput.addEventListener('input', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.filterUsers(target.value);
+            });
+        }
+
+        const userAddBtn = document.getElementById('userAddBtn');
+        if (userAddBtn) {
+            userAddBtn.addEventListener('click', () => {
+                this.addUser();
+            });
+        }
+
+        const userAddInput = document.getElementById('userAddInput') as HTMLInputElement;
+        if (userAddInput) {
+            userAddInput.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    this.addUser();
+                }
+            });
+            userAddInput.addEventListener('input', () => {
+                this.showUserError(null);
+            });
+        }
+
+        ALLOWLIST_TYPES.forEach(type => this.setupAllowlistListeners(type));
+
         const accountAgeFilterEl = document.getElementById('enableAccountAgeFilter') as HTMLInputElement;
         if (accountAgeFilterEl) {
             accountAgeFilterEl.addEventListener('change', (e) => {
@@ -187,6 +418,25 @@ class OptionsManager {
             });
         }
 
+        const commentFilterEl = document.getElementById('enableCommentFilter') as HTMLInputElement;
+        if (commentFilterEl) {
+            commentFilterEl.addEventListener('change', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.settings.commentFilterEnabled = target.checked;
+                this.saveSettings();
+            });
+        }
+
+        const hideModeDefault = document.getElementById('hideModeDefault') as HTMLSelectElement;
+        if (hideModeDefault) {
+            hideModeDefault.addEventListener('change', () => {
+                if (isHideMode(hideModeDefault.value)) {
+                    this.settings.hideMode = hideModeDefault.value;
+                    this.saveSettings();
+                }
+            });
+        }
+
         const ageSlider = document.getElementById('ageSlider') as HTMLInputElement;
         if (ageSlider) {
             ageSlider.addEventListener('input', (e) => {
@@ -197,6 +447,230 @@ class OptionsManager {
                 this.saveSettings();
             });
         }
+
+        const ageConcurrencyInput = document.getElementById('ageConcurrencyInput') as HTMLInputElement;
+        if (ageConcurrencyInput) {
+            ageConcurrencyInput.addEventListener('change', () => {
+                const value = Math.min(MAX_AGE_CONCURRENCY, Math.max(MIN_AGE_CONCURRENCY, parseInt(ageConcurrencyInput.value, 10) || 1));
+                ageConcurrencyInput.value = String(value);
+                this.settings.accountAgeConcurrency = value;
+                this.saveSettings();
+            });
+        }
+
+        Object.entries(KARMA_INPUTS).forEach(([id, key]) => {
+            const input = document.getElementById(id) as HTMLInputElement;
+            if (input) {
+                input.addEventListener('change', () => {
+                    const value = Math.min(MAX_MIN_KARMA, Math.max(0, parseInt(input.value, 10) || 0));
+                    input.value = String(value);
+                    this.settings[key] = value;
+                    this.saveSettings();
+                });
+            }
+        });
+
+        PROFILE_FILTER_FLAGS.forEach(key => {
+            const checkbox = document.getElementById(key) as HTMLInputElement;
+            if (checkbox) {
+                checkbox.addEventListener('change', () => {
+                    this.settings[key] = checkbox.checked;
+                    this.saveSettings();
+                });
+            }
+        });
+
+        const dailyChartRange = document.getElementById('dailyChartRange') as HTMLSelectElement;
+        if (dailyChartRange) {
+            dailyChartRange.addEventListener('change', () => {
+                this.dailyChartDays = parseInt(dailyChartRange.value, 10) || 30;
+                this.renderDailyChart();
+            });
+        }
+
+        const ruleStatsView = document.getElementById('ruleStatsView') as HTMLSelectElement;
+        if (ruleStatsView) {
+            ruleStatsView.addEventListener('change', () => {
+                this.ruleStatsView = ruleStatsView.value === 'dead' ? 'dead' : 'all';
+                this.renderRuleStats();
+            });
+        }
+
+        document.querySelectorAll('.data-table th.sortable').forEach(header => {
+            header.addEventListener('click', () => {
+                const column = header.getAttribute('data-sort') as RuleStatsSortColumn | null;
+                if (!column) return;
+                if (this.ruleStatsSort.column === column) {
+                    this.ruleStatsSort.direction = this.ruleStatsSort.direction === 'asc' ? 'desc' : 'asc';
+                } else {
+                    // Numbers read best largest-first, text alphabetically
+                    const numeric = column === 'hits' || column === 'lastHit';
+                    this.ruleStatsSort = { column, direction: numeric ? 'desc' : 'asc' };
+                }
+                this.renderRuleStats();
+            });
+        });
+
+        const clearRuleStatsBtn = document.getElementById('clearRuleStatsBtn');
+        if (clearRuleStatsBtn) {
+            clearRuleStatsBtn.addEventListener('click', async () => {
+                if (!confirm('Clear all rule statistics?')) return;
+                this.ruleStats = {};
+                await sendToBackground({ type: 'clearRuleStats' });
+                this.renderRuleStats();
+            });
+        }
+
+        const clearHistoryBtn = document.getElementById('clearHistoryBtn');
+        if (clearHistoryBtn) {
+            clearHistoryBtn.addEventListener('click', async () => {
+                if (!confirm('Clear the filter history?')) return;
+                this.history = [];
+                await sendToBackground({ type: 'clearHistory' });
+                this.renderHistory();
+            });
+        }
+
+        const syncEl = document.getElementById('enableSync') as HTMLInputElement;
+        if (syncEl) {
+            syncEl.addEventListener('change', async () => {
+                this.renderSyncStatus(await sendToBackground({ type: 'setSyncEnabled', enabled: syncEl.checked }));
+            });
+        }
+
+        const syncNowBtn = document.getElementById('syncNowBtn');
+        if (syncNowBtn) {
+            syncNowBtn.addEventListener('click', async () => {
+                this.renderSyncStatus(await sendToBackground({ type: 'syncNow' }));
+            });
+        }
+
+        const exportConfigBtn = document.getElementById('exportConfigBtn');
+        if (exportConfigBtn) {
+            exportConfigBtn.addEventListener('click', () => {
+                this.exportConfig();
+            });
+        }
+
+        const importConfigFile = document.getElementById('importConfigFile') as HTMLInputElement;
+        const importConfigBtn = document.getElementById('importConfigBtn');
+        if (importConfigFile && importConfigBtn) {
+            importConfigBtn.addEventListener('click', () => {
+                importConfigFile.click();
+            });
+            importConfigFile.addEventListener('change', async () => {
+                const file = importConfigFile.files?.[0];
+                // Reset so choosing the same file again fires another change event
+                importConfigFile.value = '';
+                if (file) {
+                    await this.previewImport(await file.text());
+                }
+            });
+        }
+
+        const importMode = document.getElementById('importMode') as HTMLSelectElement;
+        if (importMode) {
+            importMode.addEventListener('change', () => {
+                if (this.pendingImport) {
+                    this.renderImportPreview();
+                }
+            });
+        }
+
+        const importSubscribePacks = document.getElementById('importSubscribePacks');
+        if (importSubscribePacks) {
+            importSubscribePacks.addEventListener('change', () => {
+                if (this.pendingImport) {
+                    this.renderImportPreview();
+                }
+            });
+        }
+
+        const applyImportBtn = document.getElementById('applyImportBtn');
+        if (applyImportBtn) {
+            applyImportBtn.addEventListener('click', () => {
+                this.applyPendingImport();
+            });
+        }
+
+        const cancelImportBtn = document.getElementById('cancelImportBtn');
+        if (cancelImportBtn) {
+            cancelImportBtn.addEventListener('click', () => {
+                this.pendingImport = null;
+                this.pendingImportPacks = {};
+                this.renderImportPreview();
+            });
+        }
+
+        const packEditorSelect = document.getElementById('packEditorSelect') as HTMLSelectElement;
+        if (packEditorSelect) {
+            packEditorSelect.addEventListener('change', () => {
+                this.openPackInEditor(packEditorSelect.value || null);
+            });
+        }
+
+        const packEditorBumpBtn = document.getElementById('packEditorBumpBtn');
+        const packEditorVersion = document.getElementById('packEditorVersion') as HTMLInputElement;
+        if (packEditorBumpBtn && packEditorVersion) {
+            packEditorBumpBtn.addEventListener('click', () => {
+                packEditorVersion.value = bumpVersion(packEditorVersion.value.trim());
+            });
+        }
+
+        const packEditorExportBtn = document.getElementById('packEditorExportBtn');
+        if (packEditorExportBtn) {
+            packEditorExportBtn.addEventListener('click', () => {
+                const pack = this.buildEditorPack();
+                if (pack) {
+                    this.downloadJson(JSON.stringify(pack, null, 2), packFileName(pack));
+                }
+            });
+        }
+
+        const packEditorSaveBtn = document.getElementById('packEditorSaveBtn');
+        if (packEditorSaveBtn) {
+            packEditorSaveBtn.addEventListener('click', () => {
+                this.saveEditorPack();
+            });
+        }
+
+        // The background script records statistics from Reddit tabs while the page is open
+        browser.storage.onChanged.addListener((changes, areaName) => {
+            if (areaName !== 'local') return;
+            if (changes[RULE_STATS_KEY]) {
+                this.ruleStats = (changes[RULE_STATS_KEY].newValue as RuleHitStats) || {};
+                this.renderRuleStats();
+            }
+            if (changes[HISTORY_KEY]) {
+                this.history = (changes[HISTORY_KEY].newValue as HistoryEntry[]) || [];
+                this.renderHistory();
+            }
+            if (changes[SYNC_STATE_KEY]?.newValue) {
+                this.renderSyncStatus(changes[SYNC_STATE_KEY].newValue as SyncStatus);
+            }
+            if (changes[PACK_SUBSCRIPTIONS_KEY]) {
+                this.packSubscriptions = (changes[PACK_SUBSCRIPTIONS_KEY].newValue || {}) as Record<string, PackSubscription>;
+                this.filterPacks = allPacks(this.packSubscriptions);
+                this.renderRuleStats();
+                this.renderPackEditorSelect();
+            }
+        });
+
+        browser.runtime.onMessage.addListener((message: unknown) => {
+            if (isBroadcastMessage(message) && message.type === 'countersUpdated') {
+                this.counters = message.counters;
+                this.updateCounterDisplay();
+                this.renderDailyChart();
+            } else if (isBroadcastMessage(message) && message.type === 'settingsUpdated') {
+                // Changes from another device or the popup; this page's own saves are skipped
+                if (broadcastChanges(this.savedSettings, message.settings, this.savingFields).length > 0) {
+                    this.loadSettings().then(() => {
+                        this.renderAll();
+                        this.updateAllStats();
+                    });
+                }
+            }
+        });
     }
 
     filterKeywords(searchTerm: string): void {
@@ -230,6 +704,14 @@ class OptionsManager {
             const span = document.createElement('span');
             span.textContent = keyword;
 
+            const ruleLabel = describeKeywordRule(parseKeywordRule(keyword));
+            if (ruleLabel) {
+                const badge = document.createElement('span');
+                badge.className = 'rule-type-badge';
+                badge.textContent = ruleLabel;
+                span.appendChild(badge);
+            }
+
             const deleteBtn = document.createElement('button');
             deleteBtn.className = 'delete-btn';
             deleteBtn.textContent = 'Delete';
@@ -248,9 +730,15 @@ class OptionsManager {
         const input = document.getElementById('keywordAddInput') as HTMLInputElement;
         if (!input) return;
 
-        const keyword = input.value.trim().toLowerCase();
+        const keyword = normalizeKeywordRule(input.value);
+        if (!keyword) return;
 
-        if (keyword && !this.settings.keywords.includes(keyword)) {
+        // Reject invalid patterns here so the content script never sees them
+        const error = validateKeywordRule(keyword);
+        this.showKeywordError(error);
+        if (error) return;
+
+        if (!this.settings.keywords.includes(keyword)) {
             this.settings.keywords.push(keyword);
             this.settings.keywords.sort();
             this.filteredKeywords = [...this.settings.keywords];
@@ -267,6 +755,14 @@ class OptionsManager {
         }
     }
 
+    showKeywordError(message: string | null): void {
+        const errorEl = document.getElementById('keywordAddError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
     removeKeyword(keyword: string): void {
         this.settings.keywords = this.settings.keywords.filter(k => k !== keyword);
         this.filteredKeywords = this.filteredKeywords.filter(k => k !== keyword);
@@ -371,14 +867,1004 @@ class OptionsManager {
         }
     }
 
+    filterUsers(searchTerm: string): void {
+        const term = searchTerm.toLowerCase();
+        this.filteredUsers = this.settings.blockedUsers.filter(user =>
+            user.toLowerCase().includes(term)
+        );
+        this.renderUsers();
+    }
+
+    renderUsers(): void {
+        const container = document.getElementById('usersContainer');
+        if (!container) return;
+
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        if (this.filteredUsers.length === 0) {
+            const emptyState = document.createElement('div');
+            emptyState.className = 'empty-state';
+            emptyState.textContent = 'No users found';
+            container.appendChild(emptyState);
+            return;
+        }
+
+        this.filteredUsers.forEach((user) => {
+            const item = document.createElement('div');
+            item.className = 'list-item';
+
+            const span = document.createElement('span');
+            span.textContent = `u/${user}`;
+
+            const deleteBtn = document.createElement('button');
+            deleteBtn.className = 'delete-btn';
+            deleteBtn.textContent = 'Delete';
+            deleteBtn.setAttribute('data-user', user);
+            deleteBtn.addEventListener('click', () => {
+                this.removeUser(user);
+            });
+
+            item.appendChild(span);
+            item.appendChild(deleteBtn);
+            container.appendChild(item);
+        });
+    }
+
+    addUser(): void {
+        const input = document.getElementById('userAddInput') as HTMLInputElement;
+        if (!input) return;
+
+        const user = normalizeUsername(input.value);
+        if (!user) return;
+
+        const error = validateUsername(user);
+        this.showUserError(error);
+        if (error) return;
+
+        if (!this.settings.blockedUsers.includes(user)) {
+            this.settings.blockedUsers = [...this.settings.blockedUsers, user].sort();
+            this.filteredUsers = [...this.settings.blockedUsers];
+
+            const searchInput = document.getElementById('userSearchInput') as HTMLInputElement;
+            if (searchInput) {
+                searchInput.value = '';
+            }
+            input.value = '';
+
+            this.renderUsers();
+            this.updateUserStats();
+            this.saveSettings();
+        }
+    }
+
+    removeUser(user: string): void {
+        this.settings.blockedUsers = this.settings.blockedUsers.filter(u => u !== user);
+        this.filteredUsers = this.filteredUsers.filter(u => u !== user);
+
+        this.renderUsers();
+        this.updateUserStats();
+        this.saveSettings();
+    }
+
+    showUserError(message: string | null): void {
+        const errorEl = document.getElementById('userAddError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    updateUserStats(): void {
+        const stats = document.getElementById('userStats');
+        if (stats) {
+            stats.textContent = `Total users: ${this.settings.blockedUsers.length}`;
+        }
+    }
+
+    setupAllowlistListeners(type: AllowlistType): void {
+        const prefix = ALLOWLIST_ELEMENT_PREFIXES[type];
+
+        const searchInput = document.getElementById(`${prefix}SearchInput`) as HTMLInputElement;
+        if (searchInput) {
+            searchInput.addEventListener('input', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.filterAllowlist(type, target.value);
+            });
+        }
+
+        const addBtn = document.getElementById(`${prefix}AddBtn`);
+        if (addBtn) {
+            addBtn.addEventListener('click', () => {
+                this.addAllowlistEntry(type);
+            });
+        }
+
+        const addInput = document.getElementById(`${prefix}AddInput`) as HTMLInputElement;
+        if (addInput) {
+            addInput.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    this.addAllowlistEntry(type);
+                }
+            });
+            addInput.addEventListener('input', () => {
+                this.showAllowlistError(type, null);
+            });
+        }
+    }
+
+    filterAllowlist(type: AllowlistType, searchTerm: string): void {
+        const term = searchTerm.toLowerCase();
+        this.filteredAllowlists[type] = this.settings[ALLOWLISTS[type].settingsKey].filter(entry =>
+            entry.toLowerCase().includes(term)
+        );
+        this.renderAllowlist(type);
+    }
+
+    renderAllowlist(type: AllowlistType): void {
+        const container = document.getElementById(`${ALLOWLIST_ELEMENT_PREFIXES[type]}sContainer`);
+        if (!container) return;
+
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        if (this.filteredAllowlists[type].length === 0) {
+            const emptyState = document.createElement('div');
+            emptyState.className = 'empty-state';
+            emptyState.textContent = `No allowed ${ALLOWLISTS[type].label} found`;
+            container.appendChild(emptyState);
+            return;
+        }
+
+        this.filteredAllowlists[type].forEach((entry) => {
+            const item = document.createElement('div');
+            item.className = 'list-item';
+
+            const span = document.createElement('span');
+            span.textContent = type === 'authors' ? `u/${entry}` : entry;
+
+            const deleteBtn = document.createElement('button');
+            deleteBtn.className = 'delete-btn';
+            deleteBtn.textContent = 'Delete';
+            deleteBtn.addEventListener('click', () => {
+                this.removeAllowlistEntry(type, entry);
+            });
+
+            item.appendChild(span);
+            item.appendChild(deleteBtn);
+            container.appendChild(item);
+        });
+    }
+
+    addAllowlistEntry(type: AllowlistType): void {
+        const prefix = ALLOWLIST_ELEMENT_PREFIXES[type];
+        const input = document.getElementById(`${prefix}AddInput`) as HTMLInputElement;
+        if (!input) return;
+
+        const entry = normalizeAllowlistEntry(type, input.value);
+        if (!entry) return;
+
+        const error = validateAllowlistEntry(type, entry);
+        this.showAllowlistError(type, error);
+        if (error) return;
+
+        const key = ALLOWLISTS[type].settingsKey;
+        if (!this.settings[key].includes(entry)) {
+            this.settings[key] = [...this.settings[key], entry].sort();
+            this.filteredAllowlists[type] = [...this.settings[key]];
+
+            const searchInput = document.getElementById(`${prefix}SearchInput`) as HTMLInputElement;
+            if (searchInput) {
+                searchInput.value = '';
+            }
+            input.value = '';
+
+            this.renderAllowlist(type);
+            this.updateAllowlistStats(type);
+            this.saveSettings();
+        }
+    }
+
+    removeAllowlistEntry(type: AllowlistType, entry: string): void {
+        const key = ALLOWLISTS[type].settingsKey;
+        this.settings[key] = this.settings[key].filter(e => e !== entry);
+        this.filteredAllowlists[type] = this.filteredAllowlists[type].filter(e => e !== entry);
+
+        this.renderAllowlist(type);
+        this.updateAllowlistStats(type);
+        this.saveSettings();
+    }
+
+    showAllowlistError(type: AllowlistType, message: string | null): void {
+        const errorEl = document.getElementById(`${ALLOWLIST_ELEMENT_PREFIXES[type]}AddError`);
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    updateAllowlistStats(type: AllowlistType): void {
+        const stats = document.getElementById(`${ALLOWLIST_ELEMENT_PREFIXES[type]}Stats`);
+        if (stats) {
+            stats.textContent = `Total allowed ${ALLOWLISTS[type].label}: ${this.settings[ALLOWLISTS[type].settingsKey].length}`;
+        }
+    }
+
+    buildRuleStatsRows(): RuleStatsRow[] {
+        const rows: RuleStatsRow[] = [];
+        const addRow = (kind: RuleKind, value: string, label: string) => {
+            const key = ruleKey(kind, value);
+            const hit = this.ruleStats[key];
+            rows.push({ key, kind, value, label, hits: hit?.hits || 0, lastHit: hit?.lastHit || 0, addedAt: hit?.addedAt || 0 });
+        };
+
+        this.settings.keywords.forEach(keyword => addRow('keyword', keyword, keyword));
+        this.settings.subreddits.forEach(subreddit => addRow('subreddit', subreddit, subreddit));
+        this.settings.blockedUsers.forEach(user => addRow('user', user, `u/${user}`));
+        (this.settings.enabledPacks || []).forEach(packId => {
+            addRow('pack', packId, this.filterPacks[packId]?.name || packId);
+        });
+        activeAccountRules(this.settings).forEach(key => {
+            addRow('filter', parseRuleKey(key).value, ACCOUNT_RULE_LABELS[key]);
+        });
+
+        if (this.ruleStatsView === 'dead') {
+            const cutoff = Date.now() - DEAD_RULE_DAYS * 24 * 60 * 60 * 1000;
+            // A rule added within the window has not had its chance to match yet
+            return rows.filter(row => Math.max(row.lastHit, row.addedAt) < cutoff);
+        }
+        return rows;
+    }
+
+    sortRuleStatsRows(rows: RuleStatsRow[]): RuleStatsRow[] {
+        const { column, direction } = this.ruleStatsSort;
+        const sign = direction === 'asc' ? 1 : -1;
+        return rows.sort((a, b) => {
+            switch (column) {
+                case 'rule':
+                    return sign * a.label.localeCompare(b.label);
+                case 'kind':
+                    return sign * (a.kind.localeCompare(b.kind) || a.label.localeCompare(b.label));
+                case 'lastHit':
+                    return sign * (a.lastHit - b.lastHit);
+                default:
+                    return sign * (a.hits - b.hits) || a.label.localeCompare(b.label);
+            }
+        });
+    }
+
+    renderRuleStats(): void {
+        const body = document.getElementById('ruleStatsBody');
+        if (!body) return;
+
+        while (body.firstChild) {
+            body.removeChild(body.firstChild);
+        }
+
+        document.querySelectorAll('.data-table th.sortable').forEach(header => {
+            const isSorted = header.getAttribute('data-sort') === this.ruleStatsSort.column;
+            header.classList.toggle('sorted-asc', isSorted && this.ruleStatsSort.direction === 'asc');
+            header.classList.toggle('sorted-desc', isSorted && this.ruleStatsSort.direction === 'desc');
+        });
+
+        const rows = this.sortRuleStatsRows(this.buildRuleStatsRows());
+        if (rows.length === 0) {
+            body.appendChild(this.createEmptyRow(6, this.ruleStatsView === 'dead'
+                ? `Every rule matched in the last ${DEAD_RULE_DAYS} days`
+                : 'No rules configured'));
+            return;
+        }
+
+        rows.forEach(row => {
+            const tr = document.createElement('tr');
+
+            const ruleCell = document.createElement('td');
+            ruleCell.textContent = row.label;
+
+            const kindCell = document.createElement('td');
+            kindCell.textContent = RULE_KIND_LABELS[row.kind];
+
+            const hitsCell = document.createElement('td');
+            hitsCell.textContent = row.hits.toLocaleString();
+
+            const lastHitCell = document.createElement('td');
+            lastHitCell.textContent = row.lastHit ? new Date(row.lastHit).toLocaleString() : 'Never';
+
+            const modeCell = document.createElement('td');
+            const modeSelect = this.createHideModeSelect(this.settings.ruleHideModes?.[row.key], 'Default');
+            modeSelect.addEventListener('change', () => {
+                this.setRuleHideMode(row.key, modeSelect.value);
+            });
+            modeCell.appendChild(modeSelect);
+
+            const actionCell = document.createElement('td');
+            if (row.kind === 'keyword' || row.kind === 'subreddit' || row.kind === 'user') {
+                const deleteBtn = document.createElement('button');
+                deleteBtn.className = 'delete-btn';
+                deleteBtn.textContent = 'Delete';
+                deleteBtn.addEventListener('click', () => {
+                    this.removeRule(row);
+                });
+                actionCell.appendChild(deleteBtn);
+            }
+
+            tr.appendChild(ruleCell);
+            tr.appendChild(kindCell);
+            tr.appendChild(hitsCell);
+            tr.appendChild(lastHitCell);
+            tr.appendChild(modeCell);
+            tr.appendChild(actionCell);
+            body.appendChild(tr);
+        });
+    }
+
+    // Display mode methods
+    // Select for an override: the empty option falls back to the next level up
+    createHideModeSelect(value: HideMode | undefined, unsetLabel: string): HTMLSelectElement {
+        const select = document.createElement('select');
+        select.className = 'table-select';
+        const unset = document.createElement('option');
+        unset.value = '';
+        unset.textContent = unsetLabel;
+        select.appendChild(unset);
+        HIDE_MODES.forEach(mode => {
+            const option = document.createElement('option');
+            option.value = mode;
+            option.textContent = HIDE_MODE_LABELS[mode];
+            select.appendChild(option);
+        });
+        select.value = value || '';
+        return select;
+    }
+
+    renderHideModes(): void {
+        const defaultSelect = document.getElementById('hideModeDefault') as HTMLSelectElement;
+        if (defaultSelect) {
+            if (defaultSelect.options.length === 0) {
+                HIDE_MODES.forEach(mode => {
+                    const option = document.createElement('option');
+                    option.value = mode;
+                    option.textContent = HIDE_MODE_LABELS[mode];
+                    defaultSelect.appendChild(option);
+                });
+            }
+            defaultSelect.value = this.settings.hideMode;
+        }
+
+        const grid = document.getElementById('hideModeGrid');
+        if (!grid) return;
+        grid.querySelectorAll('.hide-mode-category').forEach(row => row.remove());
+
+        REMOVAL_CATEGORIES.forEach(category => {
+            const row = document.createElement('label');
+            row.className = 'hide-mode-row hide-mode-category';
+
+            const label = document.createElement('span');
+            label.textContent = `${REMOVAL_CATEGORY_LABELS[category]} matches`;
+
+            const select = this.createHideModeSelect(this.settings.categoryHideModes?.[category], 'Same as above');
+            select.addEventListener('change', () => {
+                const modes = { ...this.settings.categoryHideModes };
+                if (isHideMode(select.value)) {
+                    modes[category] = select.value;
+                } else {
+                    delete modes[category];
+                }
+                this.settings.categoryHideModes = modes;
+                this.saveSettings();
+            });
+
+            row.appendChild(label);
+            row.appendChild(select);
+            grid.appendChild(row);
+        });
+    }
+
+    setRuleHideMode(key: string, value: string): void {
+        const modes = { ...this.settings.ruleHideModes };
+        if (isHideMode(value)) {
+            modes[key] = value;
+        } else {
+            delete modes[key];
+        }
+        this.settings.ruleHideModes = modes;
+        this.saveSettings();
+    }
+
+    removeRule(row: RuleStatsRow): void {
+        if (row.kind === 'keyword') {
+            this.removeKeyword(row.value);
+        } else if (row.kind === 'subreddit') {
+            this.removeSubreddit(row.value);
+        } else if (row.kind === 'user') {
+            this.removeUser(row.value);
+        }
+        this.renderRuleStats();
+    }
+
+    // Stacked bar per day, oldest on the left. Drawn as SVG built node by node.
+    renderDailyChart(): void {
+        const container = document.getElementById('dailyChart');
+        if (!container) return;
+
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        const days: Array<{ date: Date; counts: Record<RemovalCategory, number> }> = [];
+        for (let offset = this.dailyChartDays - 1; offset >= 0; offset--) {
+            const date = new Date();
+            date.setDate(date.getDate() - offset);
+            days.push({ date, counts: { ...emptyBreakdown(), ...this.counters.dailySeries[localDateKey(date)] } });
+        }
+
+        const totals = days.map(day => REMOVAL_CATEGORIES.reduce((sum, category) => sum + day.counts[category], 0));
+        const maxTotal = Math.max(...totals);
+        const rangeTotal = totals.reduce((sum, total) => sum + total, 0);
+
+        const summary = document.getElementById('dailyChartSummary');
+        if (summary) {
+            summary.textContent = `${rangeTotal.toLocaleString()} removed, ${Math.round(rangeTotal / days.length).toLocaleString()} per day on average`;
+        }
+
+        const svgNs = 'http://www.w3.org/2000/svg';
+        const width = 600;
+        const height = 180;
+        const labelHeight = 16;
+        const plotHeight = height - labelHeight;
+        const slot = width / days.length;
+        const barWidth = Math.max(1, slot * 0.75);
+
+        const svg = document.createElementNS(svgNs, 'svg');
+        svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+        svg.setAttribute('preserveAspectRatio', 'none');
+        svg.setAttribute('role', 'img');
+        svg.setAttribute('aria-label', `Removals per day for the last ${days.length} days`);
+
+        days.forEach((day, index) => {
+            const x = index * slot + (slot - barWidth) / 2;
+            let y = plotHeight;
+
+            REMOVAL_CATEGORIES.forEach(category => {
+                const count = day.counts[category];
+                if (count === 0 || maxTotal === 0) return;
+
+                const barHeight = (count / maxTotal) * (plotHeight - 4);
+                y -= barHeight;
+                const rect = document.createElementNS(svgNs, 'rect');
+                rect.setAttribute('class', `chart-${category}`);
+                rect.setAttribute('x', x.toFixed(2));
+                rect.setAttribute('y', y.toFixed(2));
+                rect.setAttribute('width', barWidth.toFixed(2));
+                rect.setAttribute('height', barHeight.toFixed(2));
+                svg.appendChild(rect);
+            });
+
+            // Full-height transparent hit area so empty days still show a tooltip
+            const hitArea = document.createElementNS(svgNs, 'rect');
+            hitArea.setAttribute('x', (index * slot).toFixed(2));
+            hitArea.setAttribute('y', '0');
+            hitArea.setAttribute('width', slot.toFixed(2));
+            hitArea.setAttribute('height', String(plotHeight));
+            hitArea.setAttribute('fill', 'transparent');
+            const tooltip = document.createElementNS(svgNs, 'title');
+            const breakdown = REMOVAL_CATEGORIES
+                .filter(category => day.counts[category] > 0)
+                .map(category => `${REMOVAL_CATEGORY_LABELS[category]}: ${day.counts[category]}`);
+            tooltip.textContent = [day.date.toLocaleDateString(), `Total: ${totals[index]}`, ...breakdown].join('\n');
+            hitArea.appendChild(tooltip);
+            svg.appendChild(hitArea);
+        });
+
+        const axis = document.createElementNS(svgNs, 'line');
+        axis.setAttribute('class', 'chart-axis');
+        axis.setAttribute('x1', '0');
+        axis.setAttribute('x2', String(width));
+        axis.setAttribute('y1', String(plotHeight));
+        axis.setAttribute('y2', String(plotHeight));
+        svg.appendChild(axis);
+
+        // Label both ends of the range and the scale
+        const labels: Array<{ index: number; text: string; anchor: string }> = [
+            { index: 0, text: days[0].date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }), anchor: 'start' },
+            { index: days.length - 1, text: 'Today', anchor: 'end' }
+        ];
+        labels.forEach(label => {
+            const text = document.createElementNS(svgNs, 'text');
+            text.setAttribute('class', 'chart-label');
+            text.setAttribute('x', label.anchor === 'start' ? '0' : String(width));
+            text.setAttribute('y', String(height - 2));
+            text.setAttribute('text-anchor', label.anchor);
+            text.textContent = label.text;
+            svg.appendChild(text);
+        });
+        if (maxTotal > 0) {
+            const peak = document.createElementNS(svgNs, 'text');
+            peak.setAttribute('class', 'chart-label');
+            peak.setAttribute('x', '2');
+            peak.setAttribute('y', '10');
+            peak.textContent = `max ${maxTotal.toLocaleString()}`;
+            svg.appendChild(peak);
+        }
+
+        container.appendChild(svg);
+        this.renderDailyChartLegend();
+    }
+
+    renderDailyChartLegend(): void {
+        const legend = document.getElementById('dailyChartLegend');
+        if (!legend || legend.childElementCount > 0) return;
+
+        REMOVAL_CATEGORIES.forEach(category => {
+            const item = document.createElement('span');
+            item.className = 'chart-legend-item';
+
+            const swatch = document.createElement('span');
+            swatch.className = `chart-legend-swatch chart-${category}`;
+
+            const label = document.createElement('span');
+            label.textContent = REMOVAL_CATEGORY_LABELS[category];
+
+            item.appendChild(swatch);
+            item.appendChild(label);
+            legend.appendChild(item);
+        });
+    }
+
+    renderHistory(): void {
+        const body = document.getElementById('historyBody');
+        if (!body) return;
+
+        while (body.firstChild) {
+            body.removeChild(body.firstChild);
+        }
+
+        const summary = document.getElementById('historySummary');
+        if (summary) {
+            summary.textContent = `${this.history.length.toLocaleString()} entries`;
+        }
+
+        if (this.history.length === 0) {
+            body.appendChild(this.createEmptyRow(3, 'Nothing has been filtered yet'));
+            return;
+        }
+
+        this.history.forEach(entry => {
+            const tr = document.createElement('tr');
+
+            const timeCell = document.createElement('td');
+            timeCell.textContent = new Date(entry.time).toLocaleString();
+
+            const titleCell = document.createElement('td');
+            const titleText = `${entry.kind === 'comment' ? '[comment] ' : ''}${entry.title || '(untitled)'}`;
+            if (entry.url) {
+                const link = document.createElement('a');
+                link.href = entry.url;
+                link.target = '_blank';
+                link.rel = 'noopener noreferrer';
+                link.textContent = titleText;
+                titleCell.appendChild(link);
+            } else {
+                titleCell.textContent = titleText;
+            }
+
+            const reasonCell = document.createElement('td');
+            reasonCell.textContent = entry.reason;
+
+            tr.appendChild(timeCell);
+            tr.appendChild(titleCell);
+            tr.appendChild(reasonCell);
+            body.appendChild(tr);
+        });
+    }
+
+    createEmptyRow(columns: number, message: string): HTMLTableRowElement {
+        const tr = document.createElement('tr');
+        tr.className = 'empty-row';
+        const td = document.createElement('td');
+        td.colSpan = columns;
+        td.textContent = message;
+        tr.appendChild(td);
+        return tr;
+    }
+
+    // Import & Export methods
+    exportConfig(): void {
+        const file = createConfigFile(this.settings, this.packSubscriptions);
+        this.downloadJson(JSON.stringify(file, null, 2), configFileName(new Date()));
+    }
+
+    downloadJson(json: string, fileName: string): void {
+        const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+        URL.revokeObjectURL(url);
+    }
+
+    async previewImport(text: string): Promise<void> {
+        const result = parseConfigFile(text);
+        if (!result.ok) {
+            this.pendingImport = null;
+            this.renderImportPreview();
+            this.showImportError(result.error);
+            return;
+        }
+
+        if (result.repairs.length > 0) {
+            console.warn('Repaired imported settings:', result.repairs);
+        }
+        this.pendingImport = result.settings;
+        this.pendingImportPacks = result.packs;
+        this.showImportError(null);
+        this.renderImportPreview();
+    }
+
+    // Packs the file names that this browser has not subscribed to: those the file
+    // carries are subscribed to on import unless the user unticks it, the rest are dropped
+    planImportPacks(): { subscribe: string[]; dropped: string[] } {
+        if (!this.pendingImport) return { subscribe: [], dropped: [] };
+        const unknown = unknownPackIds(this.pendingImport, Object.keys(this.filterPacks));
+        const subscribeEl = document.getElementById('importSubscribePacks') as HTMLInputElement;
+        const subscribe = subscribeEl?.checked === false
+            ? []
+            : unknown.filter(packId => this.pendingImportPacks[packId]);
+        return { subscribe, dropped: unknown.filter(packId => !subscribe.includes(packId)) };
+    }
+
+    // The imported settings without the packs that will be dropped
+    plannedImportSettings(dropped: string[]): FilterSettings | null {
+        if (!this.pendingImport) return null;
+        const settings = copySettings(this.pendingImport);
+        removePacks(settings, dropped);
+        return settings;
+    }
+
+    getImportMode(): ImportMode {
+        const importMode = document.getElementById('importMode') as HTMLSelectElement;
+        return importMode?.value === 'replace' ? 'replace' : 'merge';
+    }
+
+    renderImportPreview(): void {
+        const preview = document.getElementById('importPreview');
+        const summary = document.getElementById('importPreviewSummary');
+        const list = document.getElementById('importChanges');
+        const applyBtn = document.getElementById('applyImportBtn') as HTMLButtonElement;
+        if (!preview || !summary || !list) return;
+
+        while (list.firstChild) {
+            list.removeChild(list.firstChild);
+        }
+
+        const { subscribe, dropped } = this.planImportPacks();
+        const imported = this.plannedImportSettings(dropped);
+        if (!imported) {
+            preview.style.display = 'none';
+            return;
+        }
+
+        const next = applyImport(this.settings, imported, this.getImportMode());
+        const changes = diffSettings(this.settings, next);
+        preview.style.display = 'block';
+        if (applyBtn) {
+            applyBtn.disabled = changes.length === 0 && subscribe.length === 0;
+        }
+
+        // The option only matters when the file carries packs missing here
+        const packsOption = document.getElementById('importPacksOption');
+        if (packsOption) {
+            const offered = subscribe.length > 0 || dropped.some(packId => this.pendingImportPacks[packId]);
+            packsOption.style.display = offered ? 'block' : 'none';
+        }
+
+        if (changes.length === 0) {
+            summary.textContent = subscribe.length > 0
+                ? 'Your settings would not change, but the packs below would be subscribed to.'
+                : 'This file matches your current settings. Nothing would change.';
+            this.appendImportPacks(list, subscribe, dropped);
+            return;
+        }
+
+        const added = changes.reduce((sum, change) => sum + change.added.length, 0);
+        const removed = changes.reduce((sum, change) => sum + change.removed.length, 0);
+        const changed = changes.filter(change => change.changed).length +
+            changes.reduce((sum, change) => sum + (change.updated || []).length, 0);
+        summary.textContent = `${added} added, ${removed} removed, ${changed} setting${changed === 1 ? '' : 's'} changed`;
+
+        changes.forEach(change => this.appendImportChange(list, change));
+        this.appendImportPacks(list, subscribe, dropped);
+    }
+
+    appendImportChange(list: HTMLElement, change: SettingsChange): void {
+        if (change.changed) {
+            const item = document.createElement('li');
+            item.textContent = `${change.field}: ${change.changed.from} → ${change.changed.to}`;
+            list.appendChild(item);
+            return;
+        }
+
+        change.added.forEach(entry => {
+            const item = document.createElement('li');
+            item.className = 'change-added';
+            item.textContent = `+ ${change.field}: ${entry}`;
+            list.appendChild(item);
+        });
+        change.removed.forEach(entry => {
+            const item = document.createElement('li');
+            item.className = 'change-removed';
+            item.textContent = `- ${change.field}: ${entry}`;
+            list.appendChild(item);
+        });
+        (change.updated || []).forEach(entry => {
+            const item = document.createElement('li');
+            item.textContent = `~ ${change.field}: ${entry}`;
+            list.appendChild(item);
+        });
+    }
+
+    appendImportPacks(list: HTMLElement, subscribe: string[], dropped: string[]): void {
+        subscribe.forEach(packId => {
+            const { url, pack } = this.pendingImportPacks[packId];
+            const item = document.createElement('li');
+            item.className = 'change-added';
+            item.textContent = `+ subscribe: ${pack.name} (${url || 'pack file'})`;
+            list.appendChild(item);
+        });
+        dropped.forEach(packId => {
+            const item = document.createElement('li');
+            item.className = 'change-removed';
+            item.textContent = `- packs: ${this.pendingImportPacks[packId]?.pack.name || packId} is not subscribed here; its rules are kept as your own`;
+            list.appendChild(item);
+        });
+    }
+
+    async applyPendingImport(): Promise<void> {
+        const { subscribe, dropped } = this.planImportPacks();
+        const imported = this.plannedImportSettings(dropped);
+        if (!imported) return;
+
+        // Subscribe first: the background script may give a pack another id here
+        const failed: string[] = [];
+        for (const packId of subscribe) {
+            const { url, pack } = this.pendingImportPacks[packId];
+            const result = url
+                ? await sendToBackground({ type: 'subscribePack', url })
+                : await sendToBackground({ type: 'importPackFile', pack });
+            if (!result.ok) {
+                removePacks(imported, [packId]);
+                failed.push(`${pack.name} (${result.error})`);
+            } else if (result.packId !== packId) {
+                renamePack(imported, packId, result.packId);
+            }
+        }
+
+        this.settings = applyImport(this.settings, imported, this.getImportMode());
+        this.pendingImport = null;
+        this.pendingImportPacks = {};
+        await this.saveSettings();
+
+        // Re-read so the page shows exactly what the background script stored
+        await this.loadSettings();
+        this.renderAll();
+        this.updateAllStats();
+        this.renderImportPreview();
+        this.showImportError(failed.length > 0
+            ? `Could not subscribe to ${failed.join(', ')}; their rules were kept as your own`
+            : null);
+    }
+
+    showImportError(message: string | null): void {
+        const errorEl = document.getElementById('importError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    // Pack editor methods
+    renderPackEditorSelect(): void {
+        const select = document.getElementById('packEditorSelect') as HTMLSelectElement;
+        if (!select) return;
+
+        while (select.options.length > 1) {
+            select.remove(1);
+        }
+        // Only packs loaded from a file can be edited; URL packs belong to whoever hosts them
+        Object.entries(this.packSubscriptions)
+            .filter(([, subscription]) => subscription.url === null)
+            .forEach(([packId, subscription]) => {
+                const option = document.createElement('option');
+                option.value = packId;
+                option.textContent = `${subscription.pack.name} (v${subscription.pack.version})`;
+                select.appendChild(option);
+            });
+
+        if (this.editingPackId && !this.packSubscriptions[this.editingPackId]) {
+            this.editingPackId = null;
+        }
+        select.value = this.editingPackId || '';
+    }
+
+    openPackInEditor(packId: string | null): void {
+        const pack = packId ? this.packSubscriptions[packId]?.pack : null;
+        this.editingPackId = pack ? packId : null;
+
+        const contents = pack ? packContents(pack) : { keywords: [], subreddits: [] };
+        this.packEditorSelection = {
+            keywords: new Set(contents.keywords),
+            subreddits: new Set(contents.subreddits)
+        };
+
+        const fields: Array<[string, string]> = [
+            ['packEditorName', pack?.name || ''],
+            ['packEditorDescription', pack?.description || ''],
+            ['packEditorVersion', pack?.version || '1.0.0']
+        ];
+        fields.forEach(([id, value]) => {
+            const input = document.getElementById(id) as HTMLInputElement;
+            if (input) input.value = value;
+        });
+
+        this.showPackEditorError(null);
+        this.showPackEditorStatus('');
+        this.renderPackEditor();
+    }
+
+    renderPackEditor(): void {
+        this.renderPackEditorList('keywords', 'packEditorKeywords', 'packEditorKeywordCount');
+        this.renderPackEditorList('subreddits', 'packEditorSubreddits', 'packEditorSubredditCount');
+    }
+
+    renderPackEditorList(field: 'keywords' | 'subreddits', containerId: string, countId: string): void {
+        const container = document.getElementById(containerId);
+        if (!container) return;
+
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        const selection = this.packEditorSelection[field];
+        const sources = (field === 'keywords' ? this.settings.keywordSources : this.settings.subredditSources) || {};
+        const entries = this.settings[field];
+        const updateCount = () => {
+            const count = document.getElementById(countId);
+            if (count) {
+                count.textContent = `${entries.filter(entry => selection.has(entry)).length} of ${entries.length} selected`;
+            }
+        };
+
+        if (entries.length === 0) {
+            const emptyState = document.createElement('div');
+            emptyState.className = 'empty-state';
+            emptyState.textContent = `No ${field} in your lists`;
+            container.appendChild(emptyState);
+        }
+
+        entries.forEach(entry => {
+            const item = document.createElement('label');
+            item.className = 'list-item pack-editor-item';
+
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.checked = selection.has(entry);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    selection.add(entry);
+                } else {
+                    selection.delete(entry);
+                }
+                updateCount();
+            });
+
+            const text = document.createElement('span');
+            text.textContent = entry;
+
+            item.appendChild(checkbox);
+            item.appendChild(text);
+
+            const source = sources[entry];
+            if (source && source !== this.editingPackId) {
+                const sourceLabel = document.createElement('span');
+                sourceLabel.className = 'item-source';
+                sourceLabel.textContent = this.filterPacks[source]?.name || source;
+                item.appendChild(sourceLabel);
+            }
+
+            container.appendChild(item);
+        });
+
+        updateCount();
+    }
+
+    // Reads the editor into a FilterPack, or shows what is missing and returns null
+    buildEditorPack(): FilterPack | null {
+        const value = (id: string) => (document.getElementById(id) as HTMLInputElement)?.value.trim() || '';
+        const pack: FilterPack = {
+            version: value('packEditorVersion'),
+            name: value('packEditorName'),
+            description: value('packEditorDescription'),
+            keywords: this.settings.keywords.filter(kw => this.packEditorSelection.keywords.has(kw)),
+            subreddits: this.settings.subreddits.filter(sub => this.packEditorSelection.subreddits.has(sub))
+        };
+
+        let error = validateFilterPack(pack);
+        if (!error && !pack.version) {
+            error = 'Pack version cannot be empty';
+        } else if (!error && pack.keywords.length === 0 && pack.subreddits.length === 0) {
+            error = 'Select at least one keyword or subreddit';
+        }
+        this.showPackEditorError(error);
+        return error ? null : pack;
+    }
+
+    async saveEditorPack(): Promise<void> {
+        const pack = this.buildEditorPack();
+        if (!pack) return;
+
+        // Subscribers only see a change when the version changes
+        const previous = this.editingPackId ? this.packSubscriptions[this.editingPackId]?.pack : null;
+        let status = `Saved ${pack.name} v${pack.version}`;
+        if (previous && previous.version === pack.version && JSON.stringify(previous) !== JSON.stringify(pack)) {
+            pack.version = bumpVersion(pack.version);
+            const versionInput = document.getElementById('packEditorVersion') as HTMLInputElement;
+            if (versionInput) versionInput.value = pack.version;
+            status = `Saved ${pack.name}, version bumped to v${pack.version}`;
+        }
+
+        const result = await sendToBackground({ type: 'importPackFile', pack, packId: this.editingPackId || undefined });
+        if (!result.ok) {
+            this.showPackEditorError(result.error);
+            return;
+        }
+
+        claimPackItems(this.settings, result.packId, pack);
+        await this.saveSettings();
+
+        this.editingPackId = result.packId;
+        await this.loadPackSubscriptions();
+        await this.loadSettings();
+        this.renderAll();
+        this.updateAllStats();
+        this.renderPackEditorSelect();
+        this.showPackEditorStatus(status);
+    }
+
+    showPackEditorError(message: string | null): void {
+        const errorEl = document.getElementById('packEditorError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    showPackEditorStatus(message: string): void {
+        const statusEl = document.getElementById('packEditorStatus');
+        if (statusEl) {
+            statusEl.textContent = message;
+        }
+    }
+
     renderAll(): void {
         this.renderKeywords();
         this.renderSubreddits();
+        this.renderUsers();
+        ALLOWLIST_TYPES.forEach(type => this.renderAllowlist(type));
+        this.renderRuleStats();
+        this.renderHistory();
+        this.renderPackEditor();
+        this.renderHideModes();
     }
 
     updateAllStats(): void {
         this.updateKeywordStats();
         this.updateSubredditStats();
+        this.updateUserStats();
+        ALLOWLIST_TYPES.forEach(type => this.updateAllowlistStats(type));
     }
 
     updateAccountAgeFilterUI(): void {
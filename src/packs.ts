@@ -0,0 +1,346 @@
+import { normalizeSubredditName } from './entries';
+import { normalizeKeywordRule, validateKeywordRule } from './keywordRules';
+import { FilterSettings, PackContents } from './settings';
+import bundledPacksData from '../filter-packs.json';
+
+// Filter packs are named bundles of keywords and subreddits. Bundled packs ship in
+// filter-packs.json; subscribed packs are fetched from a URL (and refreshed by the
+// background script) or loaded once from a local file. Both use the same shape.
+
+export interface FilterPack {
+    version: string;
+    name: string;
+    description: string;
+    keywords: string[];
+    subreddits: string[];
+}
+
+export interface PackSubscription {
+    url: string | null; // null for packs loaded from a file
+    pack: FilterPack;
+    lastUpdated: number; // epoch ms the pack content last changed
+    lastChecked: number | null; // epoch ms of the last refresh attempt
+    lastError: string | null; // message from the last failed refresh
+}
+
+// Keyed by packId, in storage.local. Written only by the background script.
+export const PACK_SUBSCRIPTIONS_KEY = 'packSubscriptions';
+
+export const BUNDLED_PACKS = bundledPacksData as Record<string, FilterPack>;
+
+export const PACK_REFRESH_ALARM = 'refreshPacks';
+export const PACK_REFRESH_MINUTES = 6 * 60;
+
+// Bundled packs plus subscriptions; a subscription never shadows a bundled pack
+export function allPacks(subscriptions: Record<string, PackSubscription>): Record<string, FilterPack> {
+    const packs: Record<string, FilterPack> = {};
+    Object.entries(subscriptions).forEach(([packId, subscription]) => {
+        packs[packId] = subscription.pack;
+    });
+    return { ...packs, ...BUNDLED_PACKS };
+}
+
+// Returns an error message when `data` is not a usable FilterPack, or null
+export function validateFilterPack(data: unknown): string | null {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+        return 'Pack must be a JSON object';
+    }
+    const pack = data as Record<string, unknown>;
+    for (const field of ['version', 'name', 'description']) {
+        if (typeof pack[field] !== 'string') {
+            return `Pack is missing "${field}"`;
+        }
+    }
+    if (!(pack.name as string).trim()) {
+        return 'Pack name cannot be empty';
+    }
+    for (const field of ['keywords', 'subreddits']) {
+        const list = pack[field];
+        if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string')) {
+            return `Pack "${field}" must be a list of text entries`;
+        }
+    }
+    return null;
+}
+
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pack';
+}
+
+export function packIdFor(name: string, source: 'url' | 'file', taken: string[]): string {
+    const base = `${source === 'url' ? 'remote' : 'file'}-${slugify(name)}`;
+    let packId = base;
+    for (let i = 2; taken.includes(packId); i++) {
+        packId = `${base}-${i}`;
+    }
+    return packId;
+}
+
+export type PackItemKind = 'keyword' | 'subreddit';
+
+const SOURCE_FIELDS = { keyword: 'keywordSources', subreddit: 'subredditSources' } as const;
+const LIST_FIELDS = { keyword: 'keywords', subreddit: 'subreddits' } as const;
+
+// One line of a pack update review. Renames pair a removed item with an added one
+// that looks like a new spelling of it.
+export interface PackChange {
+    kind: PackItemKind;
+    type: 'added' | 'removed' | 'renamed';
+    value: string; // the new item, or the removed one
+    from?: string; // the old item of a rename
+}
+
+export interface PackUpdate {
+    packId: string;
+    fromVersion: string | null;
+    toVersion: string;
+    changes: PackChange[];
+}
+
+// The pack's rules in the form they are stored in the lists. Invalid keyword rules are skipped.
+export function packContents(pack: FilterPack): PackContents {
+    const keywords: string[] = [];
+    pack.keywords.forEach(keyword => {
+        const kw = normalizeKeywordRule(keyword);
+        if (validateKeywordRule(kw)) {
+            console.warn(`Skipping invalid keyword rule "${keyword}" in pack "${pack.name}"`);
+            return;
+        }
+        if (!keywords.includes(kw)) keywords.push(kw);
+    });
+
+    const subreddits: string[] = [];
+    pack.subreddits.forEach(subreddit => {
+        const sub = normalizeSubredditName(subreddit);
+        if (sub && !subreddits.includes(sub)) subreddits.push(sub);
+    });
+
+    return { keywords, subreddits };
+}
+
+// Adds the pack's rules that are not in the lists yet, tagged with their pack source,
+// and remembers the pack's contents so the next version can be diffed against them.
+export function addPackItems(settings: FilterSettings, packId: string, pack: FilterPack): void {
+    if (!settings.keywordSources) settings.keywordSources = {};
+    if (!settings.subredditSources) settings.subredditSources = {};
+    if (!settings.packContents) settings.packContents = {};
+
+    const contents = packContents(pack);
+    contents.keywords.forEach(kw => {
+        if (!settings.keywords.includes(kw)) {
+            settings.keywords.push(kw);
+            settings.keywordSources![kw] = packId;
+        }
+    });
+    contents.subreddits.forEach(sub => {
+        if (!settings.subreddits.includes(sub)) {
+            settings.subreddits.push(sub);
+            settings.subredditSources![sub] = packId;
+        }
+    });
+    settings.packContents[packId] = contents;
+
+    settings.keywords.sort();
+    settings.subreddits.sort();
+}
+
+// Turns the pack off: removes it from the enabled packs and takes out the rules that
+// are still tagged with it. Rules the user claimed or added by hand stay.
+export function removePackItems(settings: FilterSettings, packId: string): void {
+    if (settings.enabledPacks) {
+        settings.enabledPacks = settings.enabledPacks.filter(id => id !== packId);
+    }
+    if (settings.pinnedPacks) {
+        settings.pinnedPacks = settings.pinnedPacks.filter(id => id !== packId);
+    }
+    if (settings.packContents) {
+        delete settings.packContents[packId];
+    }
+
+    const keywordSources = settings.keywordSources || {};
+    settings.keywords = settings.keywords.filter(kw => keywordSources[kw] !== packId);
+    Object.keys(keywordSources).forEach(kw => {
+        if (keywordSources[kw] === packId) delete keywordSources[kw];
+    });
+
+    const subredditSources = settings.subredditSources || {};
+    settings.subreddits = settings.subreddits.filter(sub => subredditSources[sub] !== packId);
+    Object.keys(subredditSources).forEach(sub => {
+        if (subredditSources[sub] === packId) delete subredditSources[sub];
+    });
+}
+
+// Contents of the version the user is on. Settings saved before snapshots were kept
+// fall back to the items still tagged with the pack.
+function previousContents(settings: FilterSettings, packId: string): PackContents {
+    const snapshot = settings.packContents?.[packId];
+    if (snapshot) return snapshot;
+
+    const tagged = (sources: Record<string, string> = {}) =>
+        Object.keys(sources).filter(item => sources[item] === packId);
+    return {
+        keywords: tagged(settings.keywordSources),
+        subreddits: tagged(settings.subredditSources)
+    };
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Close enough to be the same rule respelled: a quarter of the shorter item may differ
+function renameDistance(from: string, to: string): number | null {
+    const distance = editDistance(from.toLowerCase(), to.toLowerCase());
+    const limit = Math.max(1, Math.floor(Math.min(from.length, to.length) / 4));
+    return distance <= limit ? distance : null;
+}
+
+function diffItems(kind: PackItemKind, before: string[], after: string[], current: string[], owned: (item: string) => boolean): PackChange[] {
+    // Items the user removed stay removed; items the user added or re-added are theirs
+    const added = after.filter(item => !before.includes(item) && !current.includes(item));
+    const removed = before.filter(item => !after.includes(item) && owned(item));
+
+    const changes: PackChange[] = [];
+    removed.forEach(from => {
+        let best: string | null = null;
+        let bestDistance = Infinity;
+        added.forEach(to => {
+            const distance = renameDistance(from, to);
+            if (distance !== null && distance < bestDistance) {
+                best = to;
+                bestDistance = distance;
+            }
+        });
+        if (best !== null) {
+            added.splice(added.indexOf(best), 1);
+            changes.push({ kind, type: 'renamed', value: best, from });
+        } else {
+            changes.push({ kind, type: 'removed', value: from });
+        }
+    });
+    added.forEach(value => changes.push({ kind, type: 'added', value }));
+    return changes;
+}
+
+// What moving an enabled pack to `pack` would change in the user's lists. Only items
+// still tagged with the pack can be removed or renamed.
+export function diffPackUpdate(settings: FilterSettings, packId: string, pack: FilterPack): PackUpdate {
+    const before = previousContents(settings, packId);
+    const after = packContents(pack);
+    const changes: PackChange[] = [];
+
+    (['keyword', 'subreddit'] as const).forEach(kind => {
+        const list = LIST_FIELDS[kind];
+        const sources = settings[SOURCE_FIELDS[kind]] || {};
+        changes.push(...diffItems(kind, before[list], after[list], settings[list], item => sources[item] === packId));
+    });
+
+    return {
+        packId,
+        fromVersion: settings.packVersions?.[packId] || null,
+        toVersion: pack.version,
+        changes
+    };
+}
+
+// Enabled packs with a new version that is not pinned
+export function pendingPackUpdates(settings: FilterSettings, packs: Record<string, FilterPack>): PackUpdate[] {
+    return (settings.enabledPacks || [])
+        .filter(packId => packs[packId] && settings.packVersions?.[packId] !== packs[packId].version)
+        .filter(packId => !settings.pinnedPacks?.includes(packId))
+        .map(packId => diffPackUpdate(settings, packId, packs[packId]));
+}
+
+// Applies the accepted changes and moves the pack to its new version. Items whose
+// removal or rename was declined lose their pack tag, so they are kept as the user's own.
+export function applyPackUpdate(settings: FilterSettings, update: PackUpdate, pack: FilterPack, accepted: PackChange[]): void {
+    if (!settings.keywordSources) settings.keywordSources = {};
+    if (!settings.subredditSources) settings.subredditSources = {};
+    if (!settings.packVersions) settings.packVersions = {};
+    if (!settings.packContents) settings.packContents = {};
+
+    update.changes.forEach(change => {
+        const list = LIST_FIELDS[change.kind];
+        const sources = settings[SOURCE_FIELDS[change.kind]]!;
+        const old = change.type === 'renamed' ? change.from! : change.value;
+
+        if (!accepted.includes(change)) {
+            if (change.type !== 'added') delete sources[old];
+            return;
+        }
+
+        if (change.type !== 'added') {
+            settings[list] = settings[list].filter(item => item !== old);
+            delete sources[old];
+        }
+        if (change.type !== 'removed' && !settings[list].includes(change.value)) {
+            settings[list].push(change.value);
+            sources[change.value] = update.packId;
+        }
+    });
+
+    settings.packVersions[update.packId] = pack.version;
+    settings.packContents[update.packId] = packContents(pack);
+    settings.keywords.sort();
+    settings.subreddits.sort();
+}
+
+// Makes the user's own items in `pack` part of it, as after authoring the pack in the
+// options page: listed items are tagged with the pack, items the pack no longer lists
+// go back to being the user's own, and the pack is enabled at its current version.
+export function claimPackItems(settings: FilterSettings, packId: string, pack: FilterPack): void {
+    if (!settings.enabledPacks) settings.enabledPacks = [];
+    if (!settings.packVersions) settings.packVersions = {};
+
+    (['keywordSources', 'subredditSources'] as const).forEach(field => {
+        const sources = settings[field] || {};
+        Object.keys(sources).forEach(item => {
+            if (sources[item] === packId) delete sources[item];
+        });
+        settings[field] = sources;
+    });
+
+    // Items already tagged with another pack keep their source
+    const contents = packContents(pack);
+    contents.keywords.forEach(kw => {
+        if (settings.keywords.includes(kw) && !settings.keywordSources![kw]) {
+            settings.keywordSources![kw] = packId;
+        }
+    });
+    contents.subreddits.forEach(sub => {
+        if (settings.subreddits.includes(sub) && !settings.subredditSources![sub]) {
+            settings.subredditSources![sub] = packId;
+        }
+    });
+    addPackItems(settings, packId, pack);
+
+    if (!settings.enabledPacks.includes(packId)) {
+        settings.enabledPacks.push(packId);
+    }
+    settings.packVersions[packId] = pack.version;
+    settings.pinnedPacks = settings.pinnedPacks?.filter(id => id !== packId);
+}
+
+// Increments the last number in the version: 1.2 -> 1.3, 1.0.9 -> 1.0.10, "beta" -> "beta.1"
+export function bumpVersion(version: string): string {
+    const match = version.match(/^(.*?)(\d+)(\D*)$/);
+    if (!match) return version ? `${version}.1` : '1.0.0';
+    return `${match[1]}${Number(match[2]) + 1}${match[3]}`;
+}
+
+export function packFileName(pack: FilterPack): string {
+    return `${slugify(pack.name)}-${pack.version.replace(/[^a-zA-Z0-9.-]+/g, '-')}.json`;
+}
+
+export type PackSubscribeResult =
+    | { ok: true; packId: string }
+    | { ok: false; error: string };
@@ -1,75 +1,111 @@
 import './popup.css';
 import browser from 'webextension-polyfill';
 import { DEFAULT_SETTINGS } from '../defaults';
-import filterPacksData from '../../filter-packs.json';
-
-interface FilterPack {
-    version: string;
-    name: string;
-    description: string;
-    keywords: string[];
-    subreddits: string[];
-}
+import { normalizeUsername, validateUsername } from '../entries';
+import { ALLOWLISTS, AllowlistType, normalizeAllowlistEntry, validateAllowlistEntry } from '../allowlist';
+import { describeKeywordRule, normalizeKeywordRule, parseKeywordRule, validateKeywordRule } from '../keywordRules';
+import { isBroadcastMessage, sendToBackground } from '../messages';
+import {
+    addPackItems,
+    allPacks,
+    applyPackUpdate,
+    BUNDLED_PACKS,
+    FilterPack,
+    PACK_SUBSCRIPTIONS_KEY,
+    PackChange,
+    PackSubscription,
+    PackUpdate,
+    pendingPackUpdates,
+    removePackItems
+} from '../packs';
+import {
+    DAY_LABELS,
+    describeSchedule,
+    formatMinutes,
+    isScheduleActive,
+    parseMinutes,
+    removeExpiredRules,
+    RuleSchedule
+} from '../schedule';
+import { CREATION_DATE_STRATEGY_LABELS, isParserFailing, ParserHealth } from '../profileParser';
+import { broadcastChanges, changedSettings, copySettings, createDefaultSettings, FilterSettings } from '../settings';
+import { DailySeries, ruleKey } from '../stats';
+
+// Choices for muting a rule for a while, in hours
+const EXPIRY_CHOICES: Array<{ hours: number; label: string }> = [
+    { hours: 1, label: 'In 1 hour' },
+    { hours: 8, label: 'In 8 hours' },
+    { hours: 24, label: 'In 24 hours' },
+    { hours: 24 * 7, label: 'In 7 days' }
+];
+
+// Remaining times in the lists are refreshed this often while the popup is open
+const SCHEDULE_REFRESH_INTERVAL = 30 * 1000;
 
 interface FilterItem {
     value: string;
     source?: string; // packId if from a pack
 }
 
-interface FilterSettings {
-    keywords: string[];
-    subreddits: string[];
-    enabled: boolean;
-    minAccountAge: number;
-    accountAgeFilterEnabled: boolean;
-    enabledPacks?: string[]; // Track enabled pack IDs
-    packVersions?: Record<string, string>; // packId -> version subscribed
-    keywordSources?: Record<string, string>; // keyword -> packId
-    subredditSources?: Record<string, string>; // subreddit -> packId
-}
-
 interface FilterCounters {
     totalRemoved: number;
     dailyRemoved: number;
+    totalCommentsRemoved: number;
+    dailyCommentsRemoved: number;
     lastResetDate: string;
-}
-
-interface Message {
-    type: string;
-    counters?: FilterCounters;
-    paused?: boolean;
-    remaining?: number;
-    reset?: number;
-    used?: number;
-    enabled?: boolean;
+    dailySeries: DailySeries;
 }
 
 class PopupManager {
     private settings: FilterSettings;
+    private savedSettings: FilterSettings; // as last loaded, saved or broadcast
+    private savingFields: Map<keyof FilterSettings, number>; // saves not answered yet, per field
     private counters: FilterCounters;
     private filteredKeywords: string[];
     private filteredSubreddits: string[];
+    private filteredUsers: string[];
     private currentTab: string;
+    private currentAllowlist: AllowlistType;
+    private filteredAllowlist: string[];
     private filterPacks: Record<string, FilterPack>;
+    private packSubscriptions: Record<string, PackSubscription>;
+    private packUpdates: PackUpdate[];
+    private parserHealth: ParserHealth | null = null;
 
     constructor() {
         this.settings = {
-            ...DEFAULT_SETTINGS,
+            ...createDefaultSettings(),
             enabledPacks: [],
             keywordSources: {},
             subredditSources: {}
         };
-        this.counters = { totalRemoved: 0, dailyRemoved: 0, lastResetDate: new Date().toDateString() };
+        this.savedSettings = copySettings(this.settings);
+        this.savingFields = new Map();
+        this.counters = {
+            totalRemoved: 0,
+            dailyRemoved: 0,
+            totalCommentsRemoved: 0,
+            dailyCommentsRemoved: 0,
+            lastResetDate: new Date().toDateString(),
+            dailySeries: {}
+        };
         this.filteredKeywords = [...DEFAULT_SETTINGS.keywords];
         this.filteredSubreddits = [...DEFAULT_SETTINGS.subreddits];
+        this.filteredUsers = [...DEFAULT_SETTINGS.blockedUsers];
         this.currentTab = 'keywords';
-        this.filterPacks = filterPacksData as Record<string, FilterPack>;
+        this.currentAllowlist = 'subreddits';
+        this.filteredAllowlist = [];
+        this.filterPacks = { ...BUNDLED_PACKS };
+        this.packSubscriptions = {};
+        this.packUpdates = [];
         this.init();
     }
 
     async init(): Promise<void> {
+        await this.loadPackSubscriptions();
         await this.loadSettings();
         await this.loadCounters();
+        await this.loadParserHealth();
 
         // Check if this is first run
         await this.checkFirstRun();
@@ -80,35 +116,26 @@ class PopupManager {
         this.renderPacks();
         this.updateAllStats();
         this.updateCounterDisplay();
-
-        // Request fresh counter data from content script
-        try {
-            const tabs = await browser.tabs.query({ active: true, currentWindow: true });
-            if (tabs[0]) {
-                browser.tabs.sendMessage(tabs[0].id!, { type: 'requestCounters' }).catch(() => {
-                    // Silently ignore if content script not available
-                });
-            }
-        } catch (error) {
-            // Silently ignore if content script not available or tab doesn't support messaging
-            // This happens on non-Reddit pages or extension pages
-        }
+        setInterval(() => this.refreshSchedules(), SCHEDULE_REFRESH_INTERVAL);
     }
 
     async loadSettings(): Promise<void> {
         try {
-            const result = await browser.storage.local.get(['filterSettings']);
-            if (result.filterSettings) {
-                this.settings = result.filterSettings as FilterSettings;
-            } else {
-                // Save defaults to storage for next time
-                await this.saveSettings();
-            }
+            // Already migrated and validated by the background script
+            this.settings = await sendToBackground({ type: 'getSettings' });
         } catch (error) {
             console.error('Failed to load settings:', error);
         }
+        this.savedSettings = copySettings(this.settings);
 
-        // Auto-update subscribed packs to latest versions
+        // Temporary rules that ran out while the popup was closed
+        const expired = removeExpiredRules(this.settings, new Date());
+        if (expired.length > 0) {
+            console.log('Removed expired rules:', expired);
+            await this.saveSettings();
+        }
+
+        // Find new pack versions that need the user's review
         await this.updatePackVersions();
 
         const enableFilterEl = document.getElementById('enableFilter') as HTMLInputElement;
@@ -118,6 +145,8 @@ class PopupManager {
         this.updateFilterContentVisibility();
         this.filteredKeywords = [...this.settings.keywords];
         this.filteredSubreddits = [...this.settings.subreddits];
+        this.filteredUsers = [...this.settings.blockedUsers];
+        this.filteredAllowlist = [...this.getAllowlist()];
 
         // Initialize account age filter toggle
         const accountAgeFilterEl = document.getElementById('enableAccountAgeFilter') as HTMLInputElement;
@@ -125,6 +154,12 @@ class PopupManager {
             accountAgeFilterEl.checked = this.settings.accountAgeFilterEnabled || false;
         }
 
+        // Initialize comment filter toggle
+        const commentFilterEl = document.getElementById('enableCommentFilter') as HTMLInputElement;
+        if (commentFilterEl) {
+            commentFilterEl.checked = this.settings.commentFilterEnabled || false;
+        }
+
         // Initialize age filter slider
         const ageSlider = document.getElementById('ageSlider') as HTMLInputElement;
         if (ageSlider) {
@@ -136,46 +171,74 @@ class PopupManager {
         this.updateAccountAgeFilterUI();
     }
 
-    async loadCounters(): Promise<void> {
+    // Warns when no profile parser strategy has found a creation date for a while
+    async loadParserHealth(): Promise<void> {
         try {
-            const result = await browser.storage.local.get(['filterCounters']);
-            if (result.filterCounters) {
-                this.counters = result.filterCounters as FilterCounters;
-
-                // Reset daily counter if it's a new day
-                const today = new Date().toDateString();
-                if (this.counters.lastResetDate !== today) {
-                    this.counters.dailyRemoved = 0;
-                    this.counters.lastResetDate = today;
-                    await this.saveCounters();
-                }
-            }
+            this.parserHealth = await sendToBackground({ type: 'getParserHealth' });
         } catch (error) {
-            console.error('Failed to load counters:', error);
+            console.error('Failed to load profile parser health:', error);
         }
+        this.updateParserHealth();
     }
 
-    async saveSettings(): Promise<void> {
+    updateParserHealth(): void {
+        const healthEl = document.getElementById('parserHealth');
+        if (!healthEl) return;
+
+        const health = this.parserHealth;
+        if (!health || !isParserFailing(health)) {
+            healthEl.style.display = 'none';
+            return;
+        }
+        const lastSuccess = health.lastSuccess
+            ? `last read ${new Date(health.lastSuccess).toLocaleDateString()}` +
+                (health.lastStrategy ? ` from ${CREATION_DATE_STRATEGY_LABELS[health.lastStrategy]}` : '')
+            : 'never read';
+        healthEl.textContent = `⚠️ No account age found in the last ${health.consecutiveFailures} profiles (${lastSuccess}). ` +
+            'Reddit may have changed its pages, so account filters are not working.';
+        healthEl.style.display = 'block';
+    }
+
+    // Subscribed packs are fetched and stored by the background script
+    async loadPackSubscriptions(): Promise<void> {
         try {
-            await browser.storage.local.set({ filterSettings: this.settings });
+            const result = await browser.storage.local.get([PACK_SUBSCRIPTIONS_KEY]);
+            this.packSubscriptions = (result[PACK_SUBSCRIPTIONS_KEY] as Record<string, PackSubscription>) || {};
+            this.filterPacks = allPacks(this.packSubscriptions);
+        } catch (error) {
+            console.error('Failed to load pack subscriptions:', error);
+        }
+    }
 
-            // Notify content script of settings update
-            const tabs = await browser.tabs.query({ active: true, currentWindow: true });
-            if (tabs[0]) {
-                browser.tabs.sendMessage(tabs[0].id!, { type: 'settingsUpdated' }).catch(() => {
-                    // Silently ignore if content script not available
-                });
-            }
+    async loadCounters(): Promise<void> {
+        try {
+            // Daily counters are reset by the background script when the day changes
+            this.counters = await sendToBackground({ type: 'getCounters' });
         } catch (error) {
-            console.error('Failed to save settings:', error);
+            console.error('Failed to load counters:', error);
         }
     }
 
-    async saveCounters(): Promise<void> {
+    async saveSettings(): Promise<void> {
+        const changes = changedSettings(this.savedSettings, this.settings);
+        const fields = Object.keys(changes) as Array<keyof FilterSettings>;
+        if (fields.length === 0) return;
+        this.savedSettings = copySettings(this.settings);
+        fields.forEach(field => this.savingFields.set(field, (this.savingFields.get(field) || 0) + 1));
         try {
-            await browser.storage.local.set({ filterCounters: this.counters });
+            // The background script stores the settings and notifies every Reddit tab
+            await sendToBackground({ type: 'updateSettings', changes });
         } catch (error) {
-            console.error('Failed to save counters:', error);
+            console.error('Failed to save settings:', error);
+        } finally {
+            fields.forEach(field => {
+                const count = (this.savingFields.get(field) || 1) - 1;
+                if (count > 0) {
+                    this.savingFields.set(field, count);
+                } else {
+                    this.savingFields.delete(field);
+                }
+            });
         }
     }
 
@@ -190,6 +253,11 @@ class PopupManager {
         if (dailyElement) {
             dailyElement.textContent = this.counters.dailyRemoved.toLocaleString();
         }
+
+        const commentsElement = document.getElementById('commentsCounter');
+        if (commentsElement) {
+            commentsElement.textContent = this.counters.totalCommentsRemoved.toLocaleString();
+        }
     }
 
     setupTabs(): void {
@@ -252,6 +320,9 @@ class PopupManager {
                     this.addKeyword();
                 }
             });
+            keywordAddInput.addEventListener('input', () => {
+                this.showKeywordError(null);
+            });
         }
 
         // Subreddits tab
@@ -279,6 +350,71 @@ class PopupManager {
             });
         }
 
+        // Users tab
+        const userSearchInput = document.getElementById('userSearchInput') as HTMLInputElement;
+        if (userSearchInput) {
+            userSearchInput.addEventListener('input', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.filterUsers(target.value);
+            });
+        }
+
+        const userAddBtn = document.getElementById('userAddBtn');
+        if (userAddBtn) {
+            userAddBtn.addEventListener('click', () => {
+                this.addUser();
+            });
+        }
+
+        const userAddInput = document.getElementById('userAddInput') as HTMLInputElement;
+        if (userAddInput) {
+            userAddInput.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    this.addUser();
+                }
+            });
+            userAddInput.addEventListener('input', () => {
+                this.showUserError(null);
+            });
+        }
+
+        // Allowlist tab
+        document.querySelectorAll('.allowlist-type').forEach(button => {
+            button.addEventListener('click', () => {
+                const type = button.getAttribute('data-allowlist') as AllowlistType | null;
+                if (type) {
+                    this.switchAllowlist(type);
+                }
+            });
+        });
+
+        const allowlistSearchInput = document.getElementById('allowlistSearchInput') as HTMLInputElement;
+        if (allowlistSearchInput) {
+            allowlistSearchInput.addEventListener('input', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.filterAllowlist(target.value);
+            });
+        }
+
+        const allowlistAddBtn = document.getElementById('allowlistAddBtn');
+        if (allowlistAddBtn) {
+            allowlistAddBtn.addEventListener('click', () => {
+                this.addAllowlistEntry();
+            });
+        }
+
+        const allowlistAddInput = document.getElementById('allowlistAddInput') as HTMLInputElement;
+        if (allowlistAddInput) {
+            allowlistAddInput.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    this.addAllowlistEntry();
+                }
+            });
+            allowlistAddInput.addEventListener('input', () => {
+                this.showAllowlistError(null);
+            });
+        }
+
         // Account age filter toggle
         const accountAgeFilterEl = document.getElementById('enableAccountAgeFilter') as HTMLInputElement;
         if (accountAgeFilterEl) {
@@ -287,12 +423,16 @@ class PopupManager {
                 this.settings.accountAgeFilterEnabled = target.checked;
                 this.updateAccountAgeFilterUI();
                 this.saveSettings();
+            });
+        }
 
-                // Notify content script specifically about account age filter toggle
-                this.notifyContentScript({
-                    type: 'accountAgeFilterToggled',
-                    enabled: target.checked
-                });
+        // Comment filter toggle
+        const commentFilterEl = document.getElementById('enableCommentFilter') as HTMLInputElement;
+        if (commentFilterEl) {
+            commentFilterEl.addEventListener('change', (e) => {
+                const target = e.target as HTMLInputElement;
+                this.settings.commentFilterEnabled = target.checked;
+                this.saveSettings();
             });
         }
 
@@ -308,14 +448,21 @@ class PopupManager {
             });
         }
 
-
-        // Listen for counter updates from content script
+        // Listen for counter and settings updates from the background script
         if (browser.runtime) {
             browser.runtime.onMessage.addListener((message: unknown) => {
-                const msg = message as Message;
-                if (msg.type === 'countersUpdated' && msg.counters) {
-                    this.counters = msg.counters;
+                if (isBroadcastMessage(message) && message.type === 'countersUpdated') {
+                    this.counters = message.counters;
                     this.updateCounterDisplay();
+                } else if (isBroadcastMessage(message) && message.type === 'settingsUpdated') {
+                    // Blocks from the page or context menu, sync and pack refreshes; this popup's own saves are skipped
+                    if (broadcastChanges(this.savedSettings, message.settings, this.savingFields).length > 0) {
+                        this.loadSettings().then(() => {
+                            this.renderAll();
+                            this.renderPacks();
+                            this.updateAllStats();
+                        });
+                    }
                 }
             });
         }
@@ -339,6 +486,47 @@ class PopupManager {
             });
         }
 
+        const packSubscribeBtn = document.getElementById('packSubscribeBtn');
+        const packUrlInput = document.getElementById('packUrlInput') as HTMLInputElement;
+        if (packSubscribeBtn && packUrlInput) {
+            packSubscribeBtn.addEventListener('click', () => {
+                this.subscribePack(packUrlInput.value.trim());
+            });
+            packUrlInput.addEventListener('keypress', (e) => {
+                if (e.key === 'Enter') {
+                    this.subscribePack(packUrlInput.value.trim());
+                }
+            });
+            packUrlInput.addEventListener('input', () => {
+                this.showPackError(null);
+            });
+        }
+
+        const packFileBtn = document.getElementById('packFileBtn');
+        const packFileInput = document.getElementById('packFileInput') as HTMLInputElement;
+        if (packFileBtn && packFileInput) {
+            packFileBtn.addEventListener('click', () => {
+                packFileInput.click();
+            });
+            packFileInput.addEventListener('change', async () => {
+                const file = packFileInput.files?.[0];
+                packFileInput.value = '';
+                if (file) {
+                    await this.importPackFile(await file.text());
+                }
+            });
+        }
+
+        const packRefreshBtn = document.getElementById('packRefreshBtn');
+        if (packRefreshBtn) {
+            packRefreshBtn.addEventListener('click', async () => {
+                packRefreshBtn.textContent = 'Checking...';
+                await sendToBackground({ type: 'refreshPacks' });
+                await this.reloadPacks();
+                packRefreshBtn.textContent = 'Check for updates';
+            });
+        }
+
         const applyOnboarding = document.getElementById('applyOnboarding');
         if (applyOnboarding) {
             applyOnboarding.addEventListener('click', () => {
@@ -394,6 +582,19 @@ class PopupManager {
             const span = document.createElement('span');
             span.textContent = keyword;
 
+            const ruleLabel = describeKeywordRule(parseKeywordRule(keyword));
+            if (ruleLabel) {
+                const badge = document.createElement('span');
+                badge.className = 'rule-type-badge';
+                badge.textContent = ruleLabel;
+                span.appendChild(badge);
+            }
+            const key = ruleKey('keyword', keyword);
+            const scheduleBadge = this.createScheduleBadge(key);
+            if (scheduleBadge) {
+                span.appendChild(scheduleBadge);
+            }
+
             const deleteBtn = document.createElement('button');
             deleteBtn.className = 'delete-btn';
             deleteBtn.textContent = 'Delete';
@@ -402,8 +603,13 @@ class PopupManager {
                 this.removeKeyword(keyword);
             });
 
+            const actions = document.createElement('div');
+            actions.className = 'item-actions';
+            actions.appendChild(this.createScheduleButton(key, editor => item.after(editor)));
+            actions.appendChild(deleteBtn);
+
             item.appendChild(span);
-            item.appendChild(deleteBtn);
+            item.appendChild(actions);
             container.appendChild(item);
         });
     }
@@ -412,9 +618,15 @@ class PopupManager {
         const input = document.getElementById('keywordAddInput') as HTMLInputElement;
         if (!input) return;
 
-        const keyword = input.value.trim().toLowerCase();
+        const keyword = normalizeKeywordRule(input.value);
+        if (!keyword) return;
+
+        // Reject invalid patterns here so the content script never sees them
+        const error = validateKeywordRule(keyword);
+        this.showKeywordError(error);
+        if (error) return;
 
-        if (keyword && !this.settings.keywords.includes(keyword)) {
+        if (!this.settings.keywords.includes(keyword)) {
             this.settings.keywords.push(keyword);
             this.settings.keywords.sort();
             this.filteredKeywords = [...this.settings.keywords];
@@ -432,6 +644,14 @@ class PopupManager {
         }
     }
 
+    showKeywordError(message: string | null): void {
+        const errorEl = document.getElementById('keywordAddError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
     removeKeyword(keyword: string): void {
         this.settings.keywords = this.settings.keywords.filter(k => k !== keyword);
         this.filteredKeywords = this.filteredKeywords.filter(k => k !== keyword);
@@ -489,6 +709,11 @@ class PopupManager {
 
             const span = document.createElement('span');
             span.textContent = subreddit;
+            const key = ruleKey('subreddit', subreddit);
+            const scheduleBadge = this.createScheduleBadge(key);
+            if (scheduleBadge) {
+                span.appendChild(scheduleBadge);
+            }
 
             const deleteBtn = document.createElement('button');
             deleteBtn.className = 'delete-btn';
@@ -498,8 +723,13 @@ class PopupManager {
                 this.removeSubreddit(subreddit);
             });
 
+            const actions = document.createElement('div');
+            actions.className = 'item-actions';
+            actions.appendChild(this.createScheduleButton(key, editor => item.after(editor)));
+            actions.appendChild(deleteBtn);
+
             item.appendChild(span);
-            item.appendChild(deleteBtn);
+            item.appendChild(actions);
             container.appendChild(item);
         });
     }
@@ -549,15 +779,266 @@ class PopupManager {
         }
     }
 
+    // Users methods
+    filterUsers(searchTerm: string): void {
+        const term = searchTerm.toLowerCase();
+        this.filteredUsers = this.settings.blockedUsers.filter(user =>
+            user.toLowerCase().includes(term)
+        );
+        this.renderUsers();
+    }
+
+    renderUsers(): void {
+        const container = document.getElementById('usersContainer');
+        if (!container) return;
+
+        // Clear container by removing children
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        if (this.filteredUsers.length === 0) {
+            const emptyState = document.createElement('div');
+            emptyState.className = 'empty-state';
+
+            const icon = document.createElement('div');
+            icon.className = 'empty-state-icon';
+            icon.textContent = '🔍';
+
+            const text = document.createElement('div');
+            text.textContent = 'No users found';
+
+            emptyState.appendChild(icon);
+            emptyState.appendChild(text);
+            container.appendChild(emptyState);
+            return;
+        }
+
+        this.filteredUsers.forEach((user) => {
+            const item = document.createElement('div');
+            item.className = 'list-item';
+
+            const span = document.createElement('span');
+            span.textContent = `u/${user}`;
+
+            const deleteBtn = document.createElement('button');
+            deleteBtn.className = 'delete-btn';
+            deleteBtn.textContent = 'Delete';
+            deleteBtn.setAttribute('data-user', user);
+            deleteBtn.addEventListener('click', () => {
+                this.removeUser(user);
+            });
+
+            item.appendChild(span);
+            item.appendChild(deleteBtn);
+            container.appendChild(item);
+        });
+    }
+
+    addUser(): void {
+        const input = document.getElementById('userAddInput') as HTMLInputElement;
+        if (!input) return;
+
+        const user = normalizeUsername(input.value);
+        if (!user) return;
+
+        const error = validateUsername(user);
+        this.showUserError(error);
+        if (error) return;
+
+        if (!this.settings.blockedUsers.includes(user)) {
+            this.settings.blockedUsers = [...this.settings.blockedUsers, user].sort();
+            this.filteredUsers = [...this.settings.blockedUsers];
+
+            // Clear search and input
+            const searchInput = document.getElementById('userSearchInput') as HTMLInputElement;
+            if (searchInput) {
+                searchInput.value = '';
+            }
+            input.value = '';
+
+            this.renderUsers();
+            this.updateUserStats();
+            this.saveSettings();
+        }
+    }
+
+    removeUser(user: string): void {
+        this.settings.blockedUsers = this.settings.blockedUsers.filter(u => u !== user);
+        this.filteredUsers = this.filteredUsers.filter(u => u !== user);
+
+        this.renderUsers();
+        this.updateUserStats();
+        this.saveSettings();
+    }
+
+    showUserError(message: string | null): void {
+        const errorEl = document.getElementById('userAddError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    updateUserStats(): void {
+        const stats = document.getElementById('userStats');
+        if (stats) {
+            stats.textContent = `👤 Total users: ${this.settings.blockedUsers.length}`;
+        }
+    }
+
+    // Allowlist methods
+    switchAllowlist(type: AllowlistType): void {
+        this.currentAllowlist = type;
+
+        document.querySelectorAll('.allowlist-type').forEach(button => {
+            button.classList.toggle('active', button.getAttribute('data-allowlist') === type);
+        });
+
+        const searchInput = document.getElementById('allowlistSearchInput') as HTMLInputElement;
+        if (searchInput) {
+            searchInput.value = '';
+        }
+        const addInput = document.getElementById('allowlistAddInput') as HTMLInputElement;
+        if (addInput) {
+            addInput.value = '';
+            addInput.placeholder = ALLOWLISTS[type].placeholder;
+        }
+
+        this.showAllowlistError(null);
+        this.filteredAllowlist = [...this.getAllowlist()];
+        this.renderAllowlist();
+        this.updateAllowlistStats();
+    }
+
+    getAllowlist(): string[] {
+        return this.settings[ALLOWLISTS[this.currentAllowlist].settingsKey] || [];
+    }
+
+    setAllowlist(entries: string[]): void {
+        this.settings[ALLOWLISTS[this.currentAllowlist].settingsKey] = entries;
+    }
+
+    filterAllowlist(searchTerm: string): void {
+        const term = searchTerm.toLowerCase();
+        this.filteredAllowlist = this.getAllowlist().filter(entry =>
+            entry.toLowerCase().includes(term)
+        );
+        this.renderAllowlist();
+    }
+
+    renderAllowlist(): void {
+        const container = document.getElementById('allowlistContainer');
+        if (!container) return;
+
+        // Clear container by removing children
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
+        }
+
+        if (this.filteredAllowlist.length === 0) {
+            const emptyState = document.createElement('div');
+            emptyState.className = 'empty-state';
+
+            const icon = document.createElement('div');
+            icon.className = 'empty-state-icon';
+            icon.textContent = '🔍';
+
+            const text = document.createElement('div');
+            text.textContent = `No allowed ${ALLOWLISTS[this.currentAllowlist].label} found`;
+
+            emptyState.appendChild(icon);
+            emptyState.appendChild(text);
+            container.appendChild(emptyState);
+            return;
+        }
+
+        this.filteredAllowlist.forEach((entry) => {
+            const item = document.createElement('div');
+            item.className = 'list-item';
+
+            const span = document.createElement('span');
+            span.textContent = this.currentAllowlist === 'authors' ? `u/${entry}` : entry;
+
+            const deleteBtn = document.createElement('button');
+            deleteBtn.className = 'delete-btn';
+            deleteBtn.textContent = 'Delete';
+            deleteBtn.addEventListener('click', () => {
+                this.removeAllowlistEntry(entry);
+            });
+
+            item.appendChild(span);
+            item.appendChild(deleteBtn);
+            container.appendChild(item);
+        });
+    }
+
+    addAllowlistEntry(): void {
+        const input = document.getElementById('allowlistAddInput') as HTMLInputElement;
+        if (!input) return;
+
+        const entry = normalizeAllowlistEntry(this.currentAllowlist, input.value);
+        if (!entry) return;
+
+        const error = validateAllowlistEntry(this.currentAllowlist, entry);
+        this.showAllowlistError(error);
+        if (error) return;
+
+        const entries = this.getAllowlist();
+        if (!entries.includes(entry)) {
+            this.setAllowlist([...entries, entry].sort());
+            this.filteredAllowlist = [...this.getAllowlist()];
+
+            // Clear search and input
+            const searchInput = document.getElementById('allowlistSearchInput') as HTMLInputElement;
+            if (searchInput) {
+                searchInput.value = '';
+            }
+            input.value = '';
+
+            this.renderAllowlist();
+            this.updateAllowlistStats();
+            this.saveSettings();
+        }
+    }
+
+    removeAllowlistEntry(entry: string): void {
+        this.setAllowlist(this.getAllowlist().filter(e => e !== entry));
+        this.filteredAllowlist = this.filteredAllowlist.filter(e => e !== entry);
+
+        this.renderAllowlist();
+        this.updateAllowlistStats();
+        this.saveSettings();
+    }
+
+    showAllowlistError(message: string | null): void {
+        const errorEl = document.getElementById('allowlistAddError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    updateAllowlistStats(): void {
+        const stats = document.getElementById('allowlistStats');
+        if (stats) {
+            stats.textContent = `✅ Always shown ${ALLOWLISTS[this.currentAllowlist].label}: ${this.getAllowlist().length}`;
+        }
+    }
+
     // Combined methods
     renderAll(): void {
         this.renderKeywords();
         this.renderSubreddits();
+        this.renderUsers();
+        this.renderAllowlist();
     }
 
     updateAllStats(): void {
         this.updateKeywordStats();
         this.updateSubredditStats();
+        this.updateUserStats();
+        this.updateAllowlistStats();
     }
 
     // Account age filter methods
@@ -598,20 +1079,329 @@ class PopupManager {
             }
         }
     }
-    async notifyContentScript(message: any): Promise<void> {
+    // Temporary and scheduled rules
+
+    createScheduleBadge(key: string): HTMLElement | null {
+        const schedule = this.settings.ruleSchedules?.[key];
+        if (!schedule) return null;
+
+        const badge = document.createElement('span');
+        badge.className = 'schedule-badge';
+        badge.setAttribute('data-schedule-key', key);
+        this.updateScheduleBadge(badge, schedule);
+        return badge;
+    }
+
+    updateScheduleBadge(badge: HTMLElement, schedule: RuleSchedule): void {
+        const now = new Date();
+        const active = isScheduleActive(schedule, now);
+        badge.textContent = describeSchedule(schedule, now);
+        badge.classList.toggle('inactive', !active);
+        badge.title = active ? 'Applied right now' : 'Not applied right now';
+    }
+
+    // Opens and closes the schedule editor of one rule; `place` puts it on the page
+    createScheduleButton(key: string, place: (editor: HTMLElement) => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.className = 'schedule-btn';
+        button.textContent = '⏱';
+        button.title = 'Mute for a while or apply only on a schedule';
+
+        let editor: HTMLElement | null = null;
+        button.addEventListener('click', () => {
+            if (editor?.isConnected) {
+                editor.remove();
+                editor = null;
+            } else {
+                editor = this.createScheduleEditor(key);
+                place(editor);
+            }
+        });
+        return button;
+    }
+
+    createPackScheduleStatus(packId: string, card: HTMLElement): HTMLElement {
+        const status = document.createElement('div');
+        status.className = 'pack-status';
+
+        const key = ruleKey('pack', packId);
+        const badge = this.createScheduleBadge(key);
+        const text = document.createElement('span');
+        text.textContent = badge ? 'Scheduled ' : 'Always on ';
+        status.appendChild(text);
+        if (badge) {
+            status.appendChild(badge);
+        }
+
+        const button = this.createScheduleButton(key, editor => card.appendChild(editor));
+        button.className = 'pack-link-btn';
+        button.textContent = 'Schedule';
+        status.appendChild(button);
+        return status;
+    }
+
+    createScheduleEditor(key: string): HTMLElement {
+        const current = this.settings.ruleSchedules?.[key];
+        const editor = document.createElement('div');
+        editor.className = 'schedule-editor';
+
+        // Expiry
+        const expiryRow = document.createElement('label');
+        expiryRow.className = 'schedule-row';
+        expiryRow.textContent = 'Remove ';
+        const expiry = document.createElement('select');
+        const addOption = (value: string, label: string) => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = label;
+            expiry.appendChild(option);
+        };
+        if (current?.expiresAt !== undefined) {
+            addOption('keep', `Keep current (${describeSchedule({ expiresAt: current.expiresAt }, new Date())})`);
+        }
+        addOption('never', 'Never');
+        EXPIRY_CHOICES.forEach(choice => addOption(String(choice.hours), choice.label));
+        expiryRow.appendChild(expiry);
+
+        // Weekly window, Mon-Fri 09:00-17:00 when there is none yet
+        const weekly = current?.weekly || { days: [1, 2, 3, 4, 5], start: 9 * 60, end: 17 * 60 };
+        const weeklyToggleRow = document.createElement('label');
+        weeklyToggleRow.className = 'schedule-row';
+        const weeklyToggle = document.createElement('input');
+        weeklyToggle.type = 'checkbox';
+        weeklyToggle.checked = !!current?.weekly;
+        weeklyToggleRow.appendChild(weeklyToggle);
+        weeklyToggleRow.appendChild(document.createTextNode(' Only apply on'));
+
+        const days = document.createElement('div');
+        days.className = 'schedule-days';
+        const dayInputs = DAY_LABELS.map((label, day) => {
+            const dayLabel = document.createElement('label');
+            const input = document.createElement('input');
+            input.type = 'checkbox';
+            input.checked = weekly.days.includes(day);
+            dayLabel.appendChild(input);
+            dayLabel.appendChild(document.createTextNode(label));
+            days.appendChild(dayLabel);
+            return input;
+        });
+
+        const timeRow = document.createElement('div');
+        timeRow.className = 'schedule-row';
+        const start = document.createElement('input');
+        start.type = 'time';
+        start.value = formatMinutes(weekly.start);
+        const end = document.createElement('input');
+        end.type = 'time';
+        end.value = formatMinutes(weekly.end);
+        timeRow.appendChild(document.createTextNode('From '));
+        timeRow.appendChild(start);
+        timeRow.appendChild(document.createTextNode(' to '));
+        timeRow.appendChild(end);
+
+        const error = document.createElement('div');
+        error.className = 'add-error';
+
+        const buttons = document.createElement('div');
+        buttons.className = 'schedule-row';
+        const save = document.createElement('button');
+        save.className = 'pack-toggle';
+        save.textContent = 'Save';
+        save.addEventListener('click', () => {
+            const schedule: RuleSchedule = {};
+            if (expiry.value === 'keep') {
+                schedule.expiresAt = current?.expiresAt;
+            } else if (expiry.value !== 'never') {
+                schedule.expiresAt = Date.now() + Number(expiry.value) * 60 * 60 * 1000;
+            }
+
+            if (weeklyToggle.checked) {
+                const startMinutes = parseMinutes(start.value);
+                const endMinutes = parseMinutes(end.value);
+                const selectedDays = dayInputs.map((input, day) => input.checked ? day : -1).filter(day => day >= 0);
+                const message = selectedDays.length === 0
+                    ? 'Pick at least one day'
+                    : startMinutes === null || endMinutes === null || startMinutes === endMinutes
+                        ? 'Pick a start and an end time that differ'
+                        : null;
+                error.textContent = message || '';
+                error.style.display = message ? 'block' : 'none';
+                if (message) return;
+                schedule.weekly = { days: selectedDays, start: startMinutes!, end: endMinutes! };
+            }
+
+            this.setRuleSchedule(key, schedule.expiresAt !== undefined || schedule.weekly ? schedule : null);
+        });
+        buttons.appendChild(save);
+
+        if (current) {
+            const clear = document.createElement('button');
+            clear.className = 'pack-link-btn';
+            clear.textContent = 'Remove schedule';
+            clear.addEventListener('click', () => {
+                this.setRuleSchedule(key, null);
+            });
+            buttons.appendChild(clear);
+        }
+
+        editor.appendChild(expiryRow);
+        editor.appendChild(weeklyToggleRow);
+        editor.appendChild(days);
+        editor.appendChild(timeRow);
+        editor.appendChild(error);
+        editor.appendChild(buttons);
+        return editor;
+    }
+
+    setRuleSchedule(key: string, schedule: RuleSchedule | null): void {
+        if (!this.settings.ruleSchedules) this.settings.ruleSchedules = {};
+        if (schedule) {
+            this.settings.ruleSchedules[key] = schedule;
+        } else {
+            delete this.settings.ruleSchedules[key];
+        }
+
+        this.renderAll();
+        this.renderPacks();
+        this.saveSettings();
+    }
+
+    // Updates remaining times, and removes rules that expired while the popup is open
+    refreshSchedules(): void {
+        const expired = removeExpiredRules(this.settings, new Date());
+        if (expired.length > 0) {
+            this.filteredKeywords = this.filteredKeywords.filter(kw => this.settings.keywords.includes(kw));
+            this.filteredSubreddits = this.filteredSubreddits.filter(sub => this.settings.subreddits.includes(sub));
+            this.renderAll();
+            this.renderPacks();
+            this.updateAllStats();
+            this.saveSettings();
+            return;
+        }
+
+        document.querySelectorAll<HTMLElement>('[data-schedule-key]').forEach(badge => {
+            const schedule = this.settings.ruleSchedules?.[badge.getAttribute('data-schedule-key') || ''];
+            if (schedule) {
+                this.updateScheduleBadge(badge, schedule);
+            }
+        });
+    }
+
+    // Filter Packs methods
+    async subscribePack(url: string): Promise<void> {
+        let origin: string;
         try {
-            const tabs = await browser.tabs.query({ active: true, currentWindow: true });
-            if (tabs[0] && tabs[0].id) {
-                browser.tabs.sendMessage(tabs[0].id, message).catch(() => {
-                    // Silently ignore if content script not available
-                });
+            const parsed = new URL(url);
+            if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+                throw new Error('Unsupported protocol');
             }
+            origin = `${parsed.origin}/*`;
         } catch (error) {
-            // Silently ignore if content script not available
+            this.showPackError('Enter the http(s) URL of a pack JSON file');
+            return;
+        }
+
+        // Ask for access to this one site only, while the click still counts as a user gesture
+        const granted = await browser.permissions.request({ origins: [origin] });
+        if (!granted) {
+            this.showPackError('Access to that site is needed to download the pack');
+            return;
+        }
+
+        const result = await sendToBackground({ type: 'subscribePack', url });
+        if (!result.ok) {
+            this.showPackError(`Could not load pack: ${result.error}`);
+            return;
         }
+
+        const packUrlInput = document.getElementById('packUrlInput') as HTMLInputElement;
+        if (packUrlInput) {
+            packUrlInput.value = '';
+        }
+        this.showPackError(null);
+        await this.reloadPacks();
+    }
+
+    async importPackFile(text: string): Promise<void> {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch (error) {
+            this.showPackError('File is not valid JSON');
+            return;
+        }
+
+        const result = await sendToBackground({ type: 'importPackFile', pack: data });
+        if (!result.ok) {
+            this.showPackError(`Could not load pack: ${result.error}`);
+            return;
+        }
+        this.showPackError(null);
+        await this.reloadPacks();
+    }
+
+    async removePackSubscription(packId: string): Promise<void> {
+        if (this.settings.enabledPacks?.includes(packId)) {
+            this.disablePack(packId);
+        }
+        await sendToBackground({ type: 'unsubscribePack', packId });
+        await this.reloadPacks();
+    }
+
+    // Subscriptions may also have updated the settings of enabled packs
+    async reloadPacks(): Promise<void> {
+        await this.loadPackSubscriptions();
+        await this.loadSettings();
+        this.renderPacks();
+        this.renderAll();
+        this.updateAllStats();
+    }
+
+    showPackError(message: string | null): void {
+        const errorEl = document.getElementById('packSubscribeError');
+        if (!errorEl) return;
+
+        errorEl.textContent = message || '';
+        errorEl.style.display = message ? 'block' : 'none';
+    }
+
+    createPackStatus(subscription: PackSubscription): HTMLElement {
+        const status = document.createElement('div');
+        status.className = 'pack-status';
+
+        const source = subscription.url ? new URL(subscription.url).hostname : 'local file';
+        const updated = new Date(subscription.lastUpdated).toLocaleDateString();
+        if (subscription.lastError) {
+            status.classList.add('failed');
+            status.textContent = `Update failed: ${subscription.lastError} (using copy from ${updated})`;
+        } else {
+            status.textContent = `From ${source} · v${subscription.pack.version} · updated ${updated}`;
+        }
+        return status;
+    }
+
+    createPinnedStatus(packId: string, pack: FilterPack): HTMLElement {
+        const status = document.createElement('div');
+        status.className = 'pack-status';
+
+        const pinnedVersion = this.settings.packVersions?.[packId];
+        const text = document.createElement('span');
+        text.textContent = pinnedVersion && pinnedVersion !== pack.version
+            ? `Pinned at v${pinnedVersion} (v${pack.version} available) `
+            : 'Pinned, updates are ignored ';
+
+        const unpin = document.createElement('button');
+        unpin.className = 'pack-link-btn';
+        unpin.textContent = 'Unpin';
+        unpin.addEventListener('click', () => {
+            this.unpinPack(packId);
+        });
+
+        status.appendChild(text);
+        status.appendChild(unpin);
+        return status;
     }
 
-    // Filter Packs methods
     renderPacks(): void {
         const container = document.getElementById('packsContainer');
         if (!container) return;
@@ -621,6 +1411,8 @@ class PopupManager {
             container.removeChild(container.firstChild);
         }
 
+        this.renderPackUpdates();
+
         const enabledPacks = this.settings.enabledPacks || [];
 
         Object.entries(this.filterPacks).forEach(([packId, pack]) => {
@@ -652,6 +1444,18 @@ class PopupManager {
             header.appendChild(title);
             header.appendChild(toggle);
 
+            const subscription = this.packSubscriptions[packId];
+            if (subscription) {
+                const remove = document.createElement('button');
+                remove.className = 'pack-toggle pack-remove';
+                remove.textContent = 'Remove';
+                remove.title = 'Unsubscribe from this pack';
+                remove.addEventListener('click', () => {
+                    this.removePackSubscription(packId);
+                });
+                header.appendChild(remove);
+            }
+
             const description = document.createElement('p');
             description.className = 'pack-description';
             description.textContent = pack.description;
@@ -675,6 +1479,15 @@ class PopupManager {
             card.appendChild(header);
             card.appendChild(description);
             card.appendChild(counts);
+            if (subscription) {
+                card.appendChild(this.createPackStatus(subscription));
+            }
+            if (isEnabled && this.settings.pinnedPacks?.includes(packId)) {
+                card.appendChild(this.createPinnedStatus(packId, pack));
+            }
+            if (isEnabled) {
+                card.appendChild(this.createPackScheduleStatus(packId, card));
+            }
 
             container.appendChild(card);
         });
@@ -687,8 +1500,6 @@ class PopupManager {
         // Initialize tracking structures if needed
         if (!this.settings.enabledPacks) this.settings.enabledPacks = [];
         if (!this.settings.packVersions) this.settings.packVersions = {};
-        if (!this.settings.keywordSources) this.settings.keywordSources = {};
-        if (!this.settings.subredditSources) this.settings.subredditSources = {};
 
         // Add pack to enabled list and track version
         if (!this.settings.enabledPacks.includes(packId)) {
@@ -696,28 +1507,8 @@ class PopupManager {
         }
         this.settings.packVersions[packId] = pack.version;
 
-        // Add keywords with source tracking
-        pack.keywords.forEach(keyword => {
-            const kw = keyword.toLowerCase();
-            if (!this.settings.keywords.includes(kw)) {
-                this.settings.keywords.push(kw);
-                this.settings.keywordSources![kw] = packId;
-            }
-        });
-
-        // Add subreddits with source tracking
-        pack.subreddits.forEach(subreddit => {
-            const sub = subreddit.toLowerCase();
-            const subWithPrefix = sub.startsWith('r/') ? sub : `r/${sub}`;
-            if (!this.settings.subreddits.includes(subWithPrefix)) {
-                this.settings.subreddits.push(subWithPrefix);
-                this.settings.subredditSources![subWithPrefix] = packId;
-            }
-        });
-
-        // Sort arrays
-        this.settings.keywords.sort();
-        this.settings.subreddits.sort();
+        // Add keywords and subreddits with source tracking
+        addPackItems(this.settings, packId, pack);
 
         // Update UI
         this.filteredKeywords = [...this.settings.keywords];
@@ -732,38 +1523,41 @@ class PopupManager {
         const pack = this.filterPacks[packId];
         if (!pack) return;
 
-        // Remove pack from enabled list
-        if (this.settings.enabledPacks) {
-            this.settings.enabledPacks = this.settings.enabledPacks.filter(id => id !== packId);
-        }
+        removePackItems(this.settings, packId);
+        this.packUpdates = this.packUpdates.filter(update => update.packId !== packId);
 
-        // Remove keywords that came from this pack
-        if (this.settings.keywordSources) {
-            this.settings.keywords = this.settings.keywords.filter(kw =>
-                this.settings.keywordSources![kw] !== packId
-            );
-            // Clean up sources
-            Object.keys(this.settings.keywordSources).forEach(kw => {
-                if (this.settings.keywordSources![kw] === packId) {
-                    delete this.settings.keywordSources![kw];
-                }
-            });
-        }
+        // Update UI
+        this.filteredKeywords = [...this.settings.keywords];
+        this.filteredSubreddits = [...this.settings.subreddits];
+        this.renderPacks();
+        this.renderAll();
+        this.updateAllStats();
+        this.saveSettings();
+    }
 
-        // Remove subreddits that came from this pack
-        if (this.settings.subredditSources) {
-            this.settings.subreddits = this.settings.subreddits.filter(sub =>
-                this.settings.subredditSources![sub] !== packId
-            );
-            // Clean up sources
-            Object.keys(this.settings.subredditSources).forEach(sub => {
-                if (this.settings.subredditSources![sub] === packId) {
-                    delete this.settings.subredditSources![sub];
-                }
-            });
+    // New versions that change nothing in the lists are applied right away; the rest
+    // wait in the review panel on the packs tab
+    async updatePackVersions(): Promise<void> {
+        const updates = pendingPackUpdates(this.settings, this.filterPacks);
+        const silent = updates.filter(update => update.changes.length === 0);
+        silent.forEach(update => {
+            applyPackUpdate(this.settings, update, this.filterPacks[update.packId], []);
+        });
+        this.packUpdates = updates.filter(update => update.changes.length > 0);
+
+        if (silent.length > 0) {
+            // Save updated settings (also notifies every Reddit tab)
+            await this.saveSettings();
         }
+    }
+
+    acceptPackUpdate(update: PackUpdate, accepted: PackChange[]): void {
+        const pack = this.filterPacks[update.packId];
+        if (!pack) return;
+
+        applyPackUpdate(this.settings, update, pack, accepted);
+        this.packUpdates = this.packUpdates.filter(pending => pending !== update);
 
-        // Update UI
         this.filteredKeywords = [...this.settings.keywords];
         this.filteredSubreddits = [...this.settings.subreddits];
         this.renderPacks();
@@ -772,65 +1566,112 @@ class PopupManager {
         this.saveSettings();
     }
 
-    async updatePackVersions(): Promise<void> {
-        if (!this.settings.enabledPacks || this.settings.enabledPacks.length === 0) {
-            return;
+    // Stays on the current version until unpinned
+    pinPackVersion(packId: string): void {
+        if (!this.settings.pinnedPacks) this.settings.pinnedPacks = [];
+        if (!this.settings.pinnedPacks.includes(packId)) {
+            this.settings.pinnedPacks.push(packId);
         }
+        this.packUpdates = this.packUpdates.filter(update => update.packId !== packId);
+        this.renderPacks();
+        this.saveSettings();
+    }
+
+    async unpinPack(packId: string): Promise<void> {
+        this.settings.pinnedPacks = (this.settings.pinnedPacks || []).filter(id => id !== packId);
+        await this.updatePackVersions();
+        this.renderPacks();
+        this.saveSettings();
+    }
+
+    renderPackUpdates(): void {
+        const container = document.getElementById('packUpdates');
+        if (!container) return;
 
-        // Initialize version tracking if missing
-        if (!this.settings.packVersions) {
-            this.settings.packVersions = {};
+        while (container.firstChild) {
+            container.removeChild(container.firstChild);
         }
 
-        let hasUpdates = false;
+        const packsTab = document.querySelector('.tab[data-tab="packs"]');
+        packsTab?.classList.toggle('has-update', this.packUpdates.length > 0);
 
-        for (const packId of this.settings.enabledPacks) {
-            const pack = this.filterPacks[packId];
-            if (!pack) continue;
+        this.packUpdates.forEach(update => {
+            const pack = this.filterPacks[update.packId];
+            if (!pack) return;
 
-            const subscribedVersion = this.settings.packVersions[packId];
+            const panel = document.createElement('div');
+            panel.className = 'pack-update';
 
-            // If no version recorded or version changed, update
-            if (!subscribedVersion || subscribedVersion !== pack.version) {
-                console.log(`Updating pack "${pack.name}" from ${subscribedVersion || 'unknown'} to ${pack.version}`);
+            const header = document.createElement('div');
+            header.className = 'pack-update-header';
+            const title = document.createElement('strong');
+            title.textContent = `Update available: ${pack.name}`;
+            const versions = document.createElement('span');
+            versions.textContent = `${update.fromVersion ? `v${update.fromVersion}` : 'current'} → v${update.toVersion}`;
+            header.appendChild(title);
+            header.appendChild(versions);
+
+            const list = document.createElement('ul');
+            list.className = 'pack-update-changes';
+            const checkboxes: HTMLInputElement[] = [];
+            update.changes.forEach(change => {
+                const item = document.createElement('li');
+                item.className = `pack-change ${change.type}`;
+
+                const label = document.createElement('label');
+                const checkbox = document.createElement('input');
+                checkbox.type = 'checkbox';
+                checkbox.checked = true;
+                checkboxes.push(checkbox);
+
+                const text = document.createElement('span');
+                const kind = change.kind === 'keyword' ? 'keyword' : 'subreddit';
+                if (change.type === 'renamed') {
+                    text.textContent = `Rename ${kind} ${change.from} → ${change.value}`;
+                } else {
+                    text.textContent = `${change.type === 'added' ? 'Add' : 'Remove'} ${kind} ${change.value}`;
+                }
 
-                // Initialize tracking if needed
-                if (!this.settings.keywordSources) this.settings.keywordSources = {};
-                if (!this.settings.subredditSources) this.settings.subredditSources = {};
+                label.appendChild(checkbox);
+                label.appendChild(text);
+                item.appendChild(label);
+                list.appendChild(item);
+            });
 
-                // Merge new keywords
-                pack.keywords.forEach(keyword => {
-                    const kw = keyword.toLowerCase();
-                    if (!this.settings.keywords.includes(kw)) {
-                        this.settings.keywords.push(kw);
-                        this.settings.keywordSources![kw] = packId;
-                    }
-                });
+            const actions = document.createElement('div');
+            actions.className = 'pack-update-actions';
 
-                // Merge new subreddits
-                pack.subreddits.forEach(subreddit => {
-                    const sub = subreddit.toLowerCase();
-                    const subWithPrefix = sub.startsWith('r/') ? sub : `r/${sub}`;
-                    if (!this.settings.subreddits.includes(subWithPrefix)) {
-                        this.settings.subreddits.push(subWithPrefix);
-                        this.settings.subredditSources![subWithPrefix] = packId;
-                    }
-                });
+            const acceptAll = document.createElement('button');
+            acceptAll.className = 'pack-toggle';
+            acceptAll.textContent = 'Accept all';
+            acceptAll.addEventListener('click', () => {
+                this.acceptPackUpdate(update, update.changes);
+            });
 
-                // Update version
-                this.settings.packVersions[packId] = pack.version;
-                hasUpdates = true;
-            }
-        }
+            const acceptSelected = document.createElement('button');
+            acceptSelected.className = 'pack-toggle';
+            acceptSelected.textContent = 'Accept selected';
+            acceptSelected.addEventListener('click', () => {
+                this.acceptPackUpdate(update, update.changes.filter((_, i) => checkboxes[i].checked));
+            });
 
-        if (hasUpdates) {
-            // Sort arrays
-            this.settings.keywords.sort();
-            this.settings.subreddits.sort();
+            const pin = document.createElement('button');
+            pin.className = 'pack-link-btn';
+            pin.textContent = update.fromVersion ? `Keep v${update.fromVersion}` : 'Keep current version';
+            pin.title = 'Ignore updates to this pack until unpinned';
+            pin.addEventListener('click', () => {
+                this.pinPackVersion(update.packId);
+            });
 
-            // Save updated settings (also notifies content script)
-            await this.saveSettings();
-        }
+            actions.appendChild(acceptAll);
+            actions.appendChild(acceptSelected);
+            actions.appendChild(pin);
+
+            panel.appendChild(header);
+            panel.appendChild(list);
+            panel.appendChild(actions);
+            container.appendChild(panel);
+        });
     }
 
     // Onboarding methods
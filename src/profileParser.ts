@@ -0,0 +1,212 @@
+import { AccountProfile } from './accountAge';
+
+// Reads an account's creation date from its profile header. Reddit changes its markup
+// without notice, so several independent strategies are tried in order and the first
+// plausible date wins. Which one succeeded is reported to the background script, so
+// the popup can warn when every strategy has been failing for a while.
+
+export type CreationDateStrategy = 'structuredData' | 'cakeDayTime' | 'jsonBlob' | 'aboutJson';
+
+export const CREATION_DATE_STRATEGY_LABELS: Record<CreationDateStrategy, string> = {
+    structuredData: 'structured data',
+    cakeDayTime: 'cake day label',
+    jsonBlob: 'embedded JSON',
+    aboutJson: 'about.json'
+};
+
+export interface CreationDateResult {
+    createdAt: number; // epoch ms
+    strategy: CreationDateStrategy;
+}
+
+interface HtmlStrategy {
+    name: CreationDateStrategy;
+    parse: (doc: Document, html: string) => Date | null;
+}
+
+// Reddit opened in June 2005; anything earlier, or in the future, was misread
+const EARLIEST_ACCOUNT = Date.UTC(2005, 5, 1);
+const FUTURE_TOLERANCE = 24 * 60 * 60 * 1000;
+
+const CAKE_DAY_LABEL = /cake\s*day|reddit\s*age|redditor since|account created/i;
+// How far up from a <time> to look for one of those labels
+const LABEL_SEARCH_DEPTH = 4;
+
+function isPlausible(date: Date | null): date is Date {
+    if (!date) return false;
+    const time = date.getTime();
+    return !Number.isNaN(time) && time >= EARLIEST_ACCOUNT && time <= Date.now() + FUTURE_TOLERANCE;
+}
+
+// ISO strings, or epoch seconds / milliseconds
+function toDate(value: unknown): Date | null {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+        return new Date(value < 1e12 ? value * 1000 : value);
+    }
+    if (typeof value === 'string' && value.trim()) {
+        const number = Number(value);
+        return Number.isFinite(number) ? toDate(number) : new Date(value);
+    }
+    return null;
+}
+
+// JSON-LD (dateCreated on the Person) and microdata
+function parseStructuredData(doc: Document): Date | null {
+    for (const script of Array.from(doc.querySelectorAll('script[type="application/ld+json"]'))) {
+        try {
+            const data = JSON.parse(script.textContent || '');
+            const items: unknown[] = Array.isArray(data) ? data : [data, ...(data?.['@graph'] || [])];
+            for (const item of items) {
+                const record = item as Record<string, unknown> | null;
+                const date = toDate(record?.dateCreated ?? (record?.mainEntity as Record<string, unknown> | undefined)?.dateCreated);
+                if (isPlausible(date)) return date;
+            }
+        } catch (error) {
+            // Not JSON; try the next block
+        }
+    }
+
+    const microdata = doc.querySelector('[itemprop="dateCreated"]');
+    const value = microdata?.getAttribute('datetime') || microdata?.getAttribute('content');
+    const date = value ? toDate(value) : null;
+    return isPlausible(date) ? date : null;
+}
+
+// A <time datetime> in the cake day tooltip, or next to a "Cake day" style label
+function parseCakeDayTime(doc: Document): Date | null {
+    const candidates = [
+        doc.querySelector('div.flex:nth-child(3) > p:nth-child(1) > faceplate-tooltip:nth-child(1) > span:nth-child(1) > time:nth-child(1)'),
+        doc.querySelector('time[data-testid="cake-day"]'),
+        ...Array.from(doc.querySelectorAll('time[datetime]')).filter(time => {
+            let element: Element | null = time;
+            for (let depth = 0; element && depth < LABEL_SEARCH_DEPTH; depth++) {
+                if (CAKE_DAY_LABEL.test(element.textContent || '')) return true;
+                element = element.parentElement;
+            }
+            return false;
+        })
+    ];
+
+    for (const time of candidates) {
+        const date = toDate(time?.getAttribute('datetime'));
+        if (isPlausible(date)) return date;
+    }
+    return null;
+}
+
+// Creation timestamps in the JSON Reddit embeds for its components
+const JSON_DATE_PATTERNS = [
+    /"created_utc"\s*:\s*"?(\d+(?:\.\d+)?)/,
+    /"createdUtc"\s*:\s*"?(\d+(?:\.\d+)?)/,
+    /"(?:accountCreatedAt|cakeDay|cakeDayDate)"\s*:\s*"([^"]+)"/,
+    /(?:created-timestamp|cake-day)="([^"]+)"/
+];
+
+function parseJsonBlob(html: string): Date | null {
+    for (const pattern of JSON_DATE_PATTERNS) {
+        const match = html.match(pattern);
+        const date = match ? toDate(match[1]) : null;
+        if (isPlausible(date)) return date;
+    }
+    return null;
+}
+
+const HTML_STRATEGIES: HtmlStrategy[] = [
+    { name: 'structuredData', parse: doc => parseStructuredData(doc) },
+    { name: 'cakeDayTime', parse: doc => parseCakeDayTime(doc) },
+    { name: 'jsonBlob', parse: (doc, html) => parseJsonBlob(html) }
+];
+
+// Tries the strategies that work on the profile header. When none finds a date the
+// content script falls back to the about.json endpoint (parseAboutJson).
+export function parseAccountCreationDate(html: string): CreationDateResult | null {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    for (const strategy of HTML_STRATEGIES) {
+        try {
+            const date = strategy.parse(doc, html);
+            if (date) {
+                return { createdAt: date.getTime(), strategy: strategy.name };
+            }
+        } catch (error) {
+            console.error(`❌ Profile parser strategy ${strategy.name} failed:`, error);
+        }
+    }
+    console.log('❌ Could not find the account creation date in the user profile HTML');
+    return null;
+}
+
+// https://www.reddit.com/user/<name>/about.json, which also carries the other profile signals
+export function parseAboutJson(text: string): AccountProfile | null {
+    let data: Record<string, unknown>;
+    try {
+        data = JSON.parse(text)?.data;
+    } catch (error) {
+        return null;
+    }
+    if (typeof data !== 'object' || data === null) return null;
+
+    const number = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : null;
+    const flag = (value: unknown) => typeof value === 'boolean' ? value : null;
+    const createdAt = toDate(number(data.created_utc));
+    return {
+        createdAt: isPlausible(createdAt) ? createdAt.getTime() : null,
+        postKarma: number(data.link_karma),
+        commentKarma: number(data.comment_karma),
+        verifiedEmail: flag(data.has_verified_email),
+        premium: flag(data.is_gold),
+        state: data.is_suspended === true ? 'suspended' : 'active'
+    };
+}
+
+// Parser health, kept by the background script in storage.local
+
+export const PARSER_HEALTH_KEY = 'profileParserHealth';
+// Profiles in a row without a date before the popup warns
+export const PARSER_FAILURE_THRESHOLD = 10;
+
+export interface ParserHealth {
+    consecutiveFailures: number;
+    lastSuccess: number; // epoch ms, 0 = never
+    lastStrategy: CreationDateStrategy | null;
+    successes: Partial<Record<CreationDateStrategy, number>>;
+}
+
+export function emptyParserHealth(): ParserHealth {
+    return { consecutiveFailures: 0, lastSuccess: 0, lastStrategy: null, successes: {} };
+}
+
+export function parseParserHealth(stored: unknown): ParserHealth {
+    const health = emptyParserHealth();
+    if (typeof stored !== 'object' || stored === null) return health;
+    const raw = stored as Record<string, unknown>;
+    if (typeof raw.consecutiveFailures === 'number') health.consecutiveFailures = raw.consecutiveFailures;
+    if (typeof raw.lastSuccess === 'number') health.lastSuccess = raw.lastSuccess;
+    if (typeof raw.lastStrategy === 'string' && raw.lastStrategy in CREATION_DATE_STRATEGY_LABELS) {
+        health.lastStrategy = raw.lastStrategy as CreationDateStrategy;
+    }
+    if (typeof raw.successes === 'object' && raw.successes !== null) {
+        Object.entries(raw.successes as Record<string, unknown>).forEach(([strategy, count]) => {
+            if (strategy in CREATION_DATE_STRATEGY_LABELS && typeof count === 'number') {
+                health.successes[strategy as CreationDateStrategy] = count;
+            }
+        });
+    }
+    return health;
+}
+
+// strategy is null when every strategy failed on a profile
+export function recordParse(health: ParserHealth, strategy: CreationDateStrategy | null, now: number): ParserHealth {
+    if (!strategy) {
+        health.consecutiveFailures++;
+        return health;
+    }
+    health.consecutiveFailures = 0;
+    health.lastSuccess = now;
+    health.lastStrategy = strategy;
+    health.successes[strategy] = (health.successes[strategy] || 0) + 1;
+    return health;
+}
+
+export function isParserFailing(health: ParserHealth): boolean {
+    return health.consecutiveFailures >= PARSER_FAILURE_THRESHOLD;
+}
@@ -0,0 +1,267 @@
+import { BlockRequest } from './blockEntry';
+
+// The "Filter" menu added above each post in the feed, for blocking its subreddit,
+// author or words from its title without opening the popup, and the toast that
+// confirms a block. Like hide.ts this only builds DOM; the content script decides
+// what a block does.
+
+export interface QuickActionPost {
+    subreddit: string; // "r/name"
+    author: string;
+    title: string;
+}
+
+// Resolves to an error message to show in the menu, or null when the block was saved
+export type QuickActionHandler = (action: BlockRequest) => Promise<string | null>;
+
+// Set on the element the menu was added for, so each post gets one menu
+export const ACTIONS_ATTRIBUTE = 'data-reddit-filter-actions';
+
+const BAR_CLASS = 'reddit-filter-actions';
+const MENU_CLASS = 'reddit-filter-actions-menu';
+const TOAST_CLASS = 'reddit-filter-toast';
+const TOAST_DURATION = 3000;
+
+const BUTTON_STYLE = `
+    background: none;
+    border: 1px solid #0079d3;
+    color: #0079d3;
+    padding: 2px 8px;
+    border-radius: 2px;
+    font-size: 11px;
+    cursor: pointer;
+`;
+
+const ITEM_STYLE = `
+    display: block;
+    width: 100%;
+    background: none;
+    border: none;
+    padding: 6px 12px;
+    text-align: left;
+    font-size: 12px;
+    color: #1c1c1c;
+    cursor: pointer;
+`;
+
+// Title words without surrounding punctuation, in title order
+export function titleWords(title: string): string[] {
+    return title
+        .split(/\s+/)
+        .map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+        .filter(word => word.length > 0);
+}
+
+function closeMenus(): void {
+    document.querySelectorAll(`.${MENU_CLASS}`).forEach(menu => menu.remove());
+}
+
+// Adds the menu button in front of the post. A shreddit-post only renders slotted
+// children, so the button goes next to it rather than inside it.
+export function addQuickActions(ele: Element, post: QuickActionPost, onAction: QuickActionHandler): void {
+    if (ele.hasAttribute(ACTIONS_ATTRIBUTE) || !ele.parentNode) return;
+    ele.setAttribute(ACTIONS_ATTRIBUTE, 'true');
+
+    const bar = document.createElement('div');
+    bar.className = BAR_CLASS;
+    bar.style.cssText = 'display: flex; justify-content: flex-end; margin: 2px 0;';
+
+    const button = document.createElement('button');
+    button.textContent = 'Filter ▾';
+    button.title = 'Block this subreddit, user or words from the title';
+    button.style.cssText = BUTTON_STYLE;
+    button.addEventListener('click', (e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const wasOpen = button.getAttribute('aria-expanded') === 'true';
+        closeMenus();
+        if (!wasOpen) {
+            openMenu(button, ele, post, onAction);
+        }
+    });
+
+    bar.appendChild(button);
+    ele.parentNode.insertBefore(bar, ele);
+}
+
+// Takes every menu off the page. The menus call back into the Filter that added them,
+// so a restarted filter removes the old ones and adds its own.
+export function removeQuickActions(): void {
+    closeMenus();
+    document.querySelectorAll(`.${BAR_CLASS}`).forEach(bar => bar.remove());
+    document.querySelectorAll(`[${ACTIONS_ATTRIBUTE}]`).forEach(ele => ele.removeAttribute(ACTIONS_ATTRIBUTE));
+}
+
+function openMenu(button: HTMLButtonElement, ele: Element, post: QuickActionPost, onAction: QuickActionHandler): void {
+    const menu = document.createElement('div');
+    menu.className = MENU_CLASS;
+    const rect = button.getBoundingClientRect();
+    menu.style.cssText = `
+        position: absolute;
+        top: ${rect.bottom + window.scrollY + 4}px;
+        left: ${Math.max(8, rect.right + window.scrollX - 280)}px;
+        width: 280px;
+        z-index: 2147483647;
+        background: #ffffff;
+        border: 1px solid #edeff1;
+        border-radius: 4px;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+        padding: 4px 0;
+        font-family: sans-serif;
+    `;
+
+    const status = document.createElement('div');
+    status.style.cssText = 'display: none; padding: 6px 12px; font-size: 11px;';
+
+    const run = async (action: BlockRequest) => {
+        const error = await onAction(action);
+        if (error) {
+            status.textContent = error;
+            status.style.color = '#f43f5e';
+            status.style.display = 'block';
+        } else {
+            closeMenus();
+        }
+    };
+
+    const addItem = (label: string, onClick: () => void) => {
+        const item = document.createElement('button');
+        item.textContent = label;
+        item.style.cssText = ITEM_STYLE;
+        item.addEventListener('click', (e) => {
+            e.stopPropagation();
+            onClick();
+        });
+        menu.appendChild(item);
+    };
+
+    if (post.subreddit) {
+        addItem(`Block ${post.subreddit}`, () => run({ type: 'subreddit', value: post.subreddit }));
+    }
+    if (post.author) {
+        addItem(`Block u/${post.author}`, () => run({ type: 'user', value: post.author }));
+    }
+    if (post.title) {
+        addItem('Block keyword from title…', () => {
+            menu.querySelectorAll('button').forEach(item => item.remove());
+            menu.insertBefore(createKeywordPicker(ele, post.title, run), status);
+        });
+    }
+
+    menu.appendChild(status);
+    menu.addEventListener('click', e => e.stopPropagation());
+    document.body.appendChild(menu);
+    button.setAttribute('aria-expanded', 'true');
+
+    const close = (e: Event) => {
+        if (e instanceof KeyboardEvent && e.key !== 'Escape') return;
+        menu.remove();
+    };
+    const observer = new MutationObserver(() => {
+        if (!menu.isConnected) {
+            button.setAttribute('aria-expanded', 'false');
+            document.removeEventListener('click', close);
+            document.removeEventListener('keydown', close);
+            observer.disconnect();
+        }
+    });
+    observer.observe(document.body, { childList: true });
+    // Added after this click has finished bubbling
+    setTimeout(() => {
+        document.addEventListener('click', close);
+        document.addEventListener('keydown', close);
+    });
+}
+
+// Title words to pick from, and an editable preview of the keyword they make.
+// Text selected in the post before opening the menu is used as the starting keyword.
+function createKeywordPicker(ele: Element, title: string, run: (action: BlockRequest) => Promise<void>): HTMLElement {
+    const picker = document.createElement('div');
+    picker.style.cssText = 'padding: 6px 12px;';
+
+    const hint = document.createElement('div');
+    hint.textContent = 'Pick words from the title:';
+    hint.style.cssText = 'font-size: 11px; color: #7c7c83; margin-bottom: 6px;';
+
+    const words = document.createElement('div');
+    words.style.cssText = 'display: flex; flex-wrap: wrap; gap: 4px; margin-bottom: 8px;';
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.placeholder = 'Keyword';
+    input.style.cssText = 'width: 100%; box-sizing: border-box; padding: 4px 6px; font-size: 12px; margin-bottom: 6px;';
+
+    const selection = window.getSelection();
+    const selectedText = selection && !selection.isCollapsed && ele.parentNode?.contains(selection.anchorNode)
+        ? selection.toString().trim()
+        : '';
+    input.value = selectedText;
+
+    // Selected words form a phrase in title order
+    const picked = new Set<number>();
+    titleWords(title).forEach((word, index, all) => {
+        const chip = document.createElement('button');
+        chip.textContent = word;
+        chip.style.cssText = `${BUTTON_STYLE} border-color: #d2d5db; color: #1c1c1c;`;
+        chip.addEventListener('click', (e) => {
+            e.stopPropagation();
+            if (picked.has(index)) {
+                picked.delete(index);
+                chip.style.background = 'none';
+            } else {
+                picked.add(index);
+                chip.style.background = '#e8f1fb';
+            }
+            input.value = all.filter((_, i) => picked.has(i)).join(' ');
+        });
+        words.appendChild(chip);
+    });
+
+    const block = document.createElement('button');
+    block.textContent = 'Block keyword';
+    block.style.cssText = BUTTON_STYLE;
+    const submit = () => {
+        if (input.value.trim()) {
+            run({ type: 'keyword', value: input.value });
+        }
+    };
+    block.addEventListener('click', (e) => {
+        e.stopPropagation();
+        submit();
+    });
+    input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') submit();
+    });
+
+    picker.appendChild(hint);
+    picker.appendChild(words);
+    picker.appendChild(input);
+    picker.appendChild(block);
+    return picker;
+}
+
+// A short confirmation in the corner of the page. A newer toast replaces the current one.
+export function showToast(text: string, isError = false): void {
+    document.querySelectorAll(`.${TOAST_CLASS}`).forEach(toast => toast.remove());
+
+    const toast = document.createElement('div');
+    toast.className = TOAST_CLASS;
+    toast.setAttribute('role', 'status');
+    toast.textContent = text;
+    toast.style.cssText = `
+        position: fixed;
+        bottom: 24px;
+        right: 24px;
+        z-index: 2147483647;
+        max-width: 320px;
+        padding: 10px 14px;
+        border-radius: 4px;
+        background: ${isError ? '#f43f5e' : '#1c1c1c'};
+        color: #ffffff;
+        font-family: sans-serif;
+        font-size: 13px;
+        box-shadow: 0 4px 12px rgba(0, 0, 0, 0.25);
+    `;
+    document.body.appendChild(toast);
+    setTimeout(() => toast.remove(), TOAST_DURATION);
+}
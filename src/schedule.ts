@@ -0,0 +1,156 @@
+import { removePackItems } from './packs';
+import { FilterSettings } from './settings';
+import { parseRuleKey, ruleKey } from './stats';
+
+// Temporary and scheduled rules. A keyword, subreddit or pack can carry an expiry (mute
+// "election night" for 24 hours) and a weekly window (a pack only during work hours).
+// Schedules live in settings.ruleSchedules keyed by ruleKey(), so the lists themselves
+// keep their plain shape. A rule outside its window stays in the lists but is not
+// applied; an expired rule is removed by the popup the next time it opens.
+
+export interface WeeklySchedule {
+    days: number[]; // 0 = Sunday ... 6 = Saturday
+    start: number; // minutes after local midnight
+    end: number; // minutes after local midnight; earlier than start runs past midnight
+}
+
+export interface RuleSchedule {
+    expiresAt?: number; // epoch ms
+    weekly?: WeeklySchedule;
+}
+
+export type SchedulableKind = 'keyword' | 'subreddit' | 'pack';
+
+export const SCHEDULABLE_KINDS: SchedulableKind[] = ['keyword', 'subreddit', 'pack'];
+
+export const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function isSchedulableKey(key: string): boolean {
+    return SCHEDULABLE_KINDS.includes(parseRuleKey(key).kind as SchedulableKind);
+}
+
+export function isValidSchedule(value: unknown): value is RuleSchedule {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+    const { expiresAt, weekly } = value as Record<string, unknown>;
+    if (expiresAt !== undefined && (typeof expiresAt !== 'number' || !Number.isFinite(expiresAt))) return false;
+    if (weekly === undefined) return expiresAt !== undefined;
+    if (typeof weekly !== 'object' || weekly === null) return false;
+
+    const { days, start, end } = weekly as Record<string, unknown>;
+    const isMinute = (minute: unknown) =>
+        typeof minute === 'number' && Number.isInteger(minute) && minute >= 0 && minute < MINUTES_PER_DAY;
+    return Array.isArray(days) && days.length > 0 &&
+        days.every(day => Number.isInteger(day) && day >= 0 && day <= 6) &&
+        isMinute(start) && isMinute(end) && start !== end;
+}
+
+export function isScheduleExpired(schedule: RuleSchedule | undefined, now: Date): boolean {
+    return schedule?.expiresAt !== undefined && schedule.expiresAt <= now.getTime();
+}
+
+function isInWeeklyWindow(weekly: WeeklySchedule, now: Date): boolean {
+    const day = now.getDay();
+    const minute = now.getHours() * 60 + now.getMinutes();
+    if (weekly.start < weekly.end) {
+        return weekly.days.includes(day) && minute >= weekly.start && minute < weekly.end;
+    }
+    // Overnight: the window opens on a listed day and closes the next morning
+    const previousDay = (day + 6) % 7;
+    return (weekly.days.includes(day) && minute >= weekly.start) ||
+        (weekly.days.includes(previousDay) && minute < weekly.end);
+}
+
+// Rules without a schedule are always active
+export function isScheduleActive(schedule: RuleSchedule | undefined, now: Date): boolean {
+    if (!schedule) return true;
+    if (isScheduleExpired(schedule, now)) return false;
+    return !schedule.weekly || isInWeeklyWindow(schedule.weekly, now);
+}
+
+// The keywords and subreddits the filter should apply right now: a rule is skipped
+// when its own schedule or the schedule of the pack it came from is not active.
+export function activeRules(settings: FilterSettings, now: Date): { keywords: string[]; subreddits: string[] } {
+    const schedules = settings.ruleSchedules || {};
+    const isActive = (kind: SchedulableKind, value: string, packId: string | undefined) =>
+        isScheduleActive(schedules[ruleKey(kind, value)], now) &&
+        (!packId || isScheduleActive(schedules[ruleKey('pack', packId)], now));
+
+    return {
+        keywords: settings.keywords.filter(kw => isActive('keyword', kw, settings.keywordSources?.[kw])),
+        subreddits: settings.subreddits.filter(sub => isActive('subreddit', sub, settings.subredditSources?.[sub]))
+    };
+}
+
+// Takes expired rules out of the lists, and turns off expired packs. Returns the rule
+// keys that were removed; settings are only changed when the list is not empty.
+export function removeExpiredRules(settings: FilterSettings, now: Date): string[] {
+    const schedules = settings.ruleSchedules || {};
+    const expired = Object.keys(schedules).filter(key => isScheduleExpired(schedules[key], now));
+
+    expired.forEach(key => {
+        const { kind, value } = parseRuleKey(key);
+        if (kind === 'keyword') {
+            settings.keywords = settings.keywords.filter(kw => kw !== value);
+            delete settings.keywordSources?.[value];
+        } else if (kind === 'subreddit') {
+            settings.subreddits = settings.subreddits.filter(sub => sub !== value);
+            delete settings.subredditSources?.[value];
+        } else if (kind === 'pack') {
+            removePackItems(settings, value);
+        }
+        delete schedules[key];
+    });
+    return expired;
+}
+
+// "09:00" <-> 540
+export function formatMinutes(minutes: number): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+export function parseMinutes(time: string): number | null {
+    const match = time.match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    return Number(match[1]) < 24 && Number(match[2]) < 60 ? minutes : null;
+}
+
+// "Mon-Fri", "Sat, Sun" or "Mon, Wed-Fri"
+function describeDays(days: number[]): string {
+    if (days.length === 7) return 'Every day';
+    const sorted = Array.from(new Set(days)).sort((a, b) => a - b);
+    const ranges: string[] = [];
+    for (let i = 0; i < sorted.length; i++) {
+        let last = i;
+        while (last + 1 < sorted.length && sorted[last + 1] === sorted[last] + 1) last++;
+        ranges.push(last - i >= 2
+            ? `${DAY_LABELS[sorted[i]]}-${DAY_LABELS[sorted[last]]}`
+            : sorted.slice(i, last + 1).map(day => DAY_LABELS[day]).join(', '));
+        i = last;
+    }
+    return ranges.join(', ');
+}
+
+function describeRemaining(ms: number): string {
+    const minutes = Math.max(1, Math.ceil(ms / 60000));
+    if (minutes < 60) return `${minutes}m left`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) return `${hours}h ${minutes % 60}m left`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h left`;
+}
+
+// Short label for the lists, e.g. "Mon-Fri 09:00-17:00 · 23h 5m left"
+export function describeSchedule(schedule: RuleSchedule, now: Date): string {
+    const parts: string[] = [];
+    if (schedule.weekly) {
+        const { days, start, end } = schedule.weekly;
+        parts.push(`${describeDays(days)} ${formatMinutes(start)}-${formatMinutes(end)}`);
+    }
+    if (schedule.expiresAt !== undefined) {
+        parts.push(isScheduleExpired(schedule, now) ? 'expired' : describeRemaining(schedule.expiresAt - now.getTime()));
+    }
+    return parts.join(' · ');
+}
@@ -0,0 +1,422 @@
+import { ALLOWLISTS, normalizeAllowlistEntry } from './allowlist';
+import { DEFAULT_SETTINGS } from './defaults';
+import { normalizeSubredditName, normalizeUsername } from './entries';
+import { HideMode, isHideMode } from './hideMode';
+import { normalizeKeywordRule } from './keywordRules';
+import { isSchedulableKey, isValidSchedule, RuleSchedule } from './schedule';
+import { RemovalCategory, REMOVAL_CATEGORIES, ruleKey } from './stats';
+
+// The stored filterSettings object, shared by the background script, content script,
+// popup and options page. Stored data is migrated to SETTINGS_SCHEMA_VERSION and then
+// validated field by field on every load, so a corrupt field is repaired (and
+// reported) instead of leaking into the filters.
+
+export const SETTINGS_SCHEMA_VERSION = 1;
+
+export interface FilterSettings {
+    schemaVersion: number;
+    keywords: string[];
+    subreddits: string[]; // "r/name"
+    blockedUsers: string[]; // usernames without the u/ prefix
+    enabled: boolean;
+    minAccountAge: number; // in months
+    accountAgeFilterEnabled: boolean;
+    accountAgeConcurrency: number; // account-age lookups running at once
+    minPostKarma: number; // 0 = off
+    minCommentKarma: number; // 0 = off
+    filterUnverifiedEmail: boolean;
+    filterSuspendedAccounts: boolean; // suspended or shadowbanned
+    exemptPremiumAccounts: boolean; // premium authors skip every account filter
+    commentFilterEnabled: boolean;
+    allowedSubreddits: string[];
+    allowedAuthors: string[];
+    allowedKeywords: string[];
+    hideMode: HideMode; // how filtered content is hidden unless a category or rule says otherwise
+    categoryHideModes?: Partial<Record<RemovalCategory, HideMode>>;
+    ruleHideModes?: Record<string, HideMode>; // ruleKey -> mode, including "pack:<id>"
+    enabledPacks?: string[]; // Track enabled pack IDs
+    packVersions?: Record<string, string>; // packId -> version subscribed
+    keywordSources?: Record<string, string>; // keyword -> packId
+    subredditSources?: Record<string, string>; // subreddit -> packId
+    packContents?: Record<string, PackContents>; // packId -> rules of the version subscribed
+    pinnedPacks?: string[]; // packIds whose updates the user declined
+    ruleSchedules?: Record<string, RuleSchedule>; // ruleKey -> expiry and weekly window, see schedule.ts
+}
+
+// A pack's rules in the form they were added to the lists
+export interface PackContents {
+    keywords: string[];
+    subreddits: string[];
+}
+
+export const MIN_ACCOUNT_AGE = 1;
+export const MAX_ACCOUNT_AGE = 60;
+export const MIN_AGE_CONCURRENCY = 1;
+export const MAX_AGE_CONCURRENCY = 10;
+export const MAX_MIN_KARMA = 1000000;
+
+export function createDefaultSettings(): FilterSettings {
+    return {
+        ...DEFAULT_SETTINGS,
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        keywords: [...DEFAULT_SETTINGS.keywords],
+        subreddits: [...DEFAULT_SETTINGS.subreddits],
+        blockedUsers: [...DEFAULT_SETTINGS.blockedUsers],
+        allowedSubreddits: [...DEFAULT_SETTINGS.allowedSubreddits],
+        allowedAuthors: [...DEFAULT_SETTINGS.allowedAuthors],
+        allowedKeywords: [...DEFAULT_SETTINGS.allowedKeywords]
+    };
+}
+
+// Pages keep a copy of the settings as last saved or broadcast, and send only the
+// fields that differ from it, so a save never reverts what another page, the context
+// menu or sync wrote in the meantime
+export function copySettings(settings: FilterSettings): FilterSettings {
+    return JSON.parse(JSON.stringify(settings));
+}
+
+export function changedSettings(saved: FilterSettings, current: FilterSettings): Partial<FilterSettings> {
+    const changes: Record<string, unknown> = {};
+    (Object.keys(current) as Array<keyof FilterSettings>).forEach(key => {
+        if (JSON.stringify(saved[key]) !== JSON.stringify(current[key])) {
+            changes[key] = current[key];
+        }
+    });
+    return changes as Partial<FilterSettings>;
+}
+
+// The fields of a settingsUpdated broadcast a page has to reload for: those that differ
+// from what it last saved, except fields it is still saving. Broadcasts for its own
+// saves can arrive late, e.g. while a slider is dragged, and would undo newer input.
+export function broadcastChanges(
+    saved: FilterSettings,
+    broadcast: FilterSettings,
+    saving: ReadonlyMap<keyof FilterSettings, number>
+): Array<keyof FilterSettings> {
+    return (Object.keys(changedSettings(saved, broadcast)) as Array<keyof FilterSettings>)
+        .filter(key => !saving.has(key));
+}
+
+type RawSettings = Record<string, unknown>;
+
+interface Migration {
+    version: number; // schemaVersion after this migration has run
+    description: string;
+    migrate(settings: RawSettings): RawSettings;
+}
+
+function mapStrings(value: unknown, normalize: (entry: string) => string): unknown {
+    return Array.isArray(value)
+        ? value.map(entry => typeof entry === 'string' ? normalize(entry) : entry)
+        : value;
+}
+
+function mapKeys(value: unknown, normalize: (key: string) => string): unknown {
+    if (!isRecord(value)) return value;
+    const mapped: RawSettings = {};
+    Object.keys(value).forEach(key => {
+        mapped[normalize(key)] = value[key];
+    });
+    return mapped;
+}
+
+// Ordered oldest first. Each migration receives the output of the previous one.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Normalize list entries saved before entries were validated on input',
+        migrate: settings => ({
+            ...settings,
+            keywords: mapStrings(settings.keywords, normalizeKeywordRule),
+            subreddits: mapStrings(settings.subreddits, normalizeSubredditName),
+            blockedUsers: mapStrings(settings.blockedUsers, normalizeUsername),
+            allowedSubreddits: mapStrings(settings.allowedSubreddits, entry => normalizeAllowlistEntry('subreddits', entry)),
+            allowedAuthors: mapStrings(settings.allowedAuthors, entry => normalizeAllowlistEntry('authors', entry)),
+            allowedKeywords: mapStrings(settings.allowedKeywords, entry => normalizeAllowlistEntry('keywords', entry)),
+            keywordSources: mapKeys(settings.keywordSources, normalizeKeywordRule),
+            subredditSources: mapKeys(settings.subredditSources, normalizeSubredditName)
+        })
+    }
+];
+
+function isRecord(value: unknown): value is RawSettings {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export interface SettingsLoadResult {
+    settings: FilterSettings;
+    migratedFrom: number | null; // stored schemaVersion when migrations ran
+    repairs: string[]; // one message per repaired or dropped field
+    newerVersion: number | null; // stored schemaVersion when a newer extension wrote it
+}
+
+// Migrates and validates whatever was found in storage. Never throws: anything that
+// cannot be used is replaced by its default and listed in `repairs`.
+export function parseStoredSettings(stored: unknown): SettingsLoadResult {
+    const repairs: string[] = [];
+    let raw: RawSettings;
+    if (stored === undefined) {
+        raw = { schemaVersion: SETTINGS_SCHEMA_VERSION };
+    } else if (isRecord(stored)) {
+        raw = stored;
+    } else {
+        repairs.push('settings: not an object, reset to defaults');
+        raw = { schemaVersion: SETTINGS_SCHEMA_VERSION };
+    }
+
+    // Settings saved before versioning have no schemaVersion and count as version 0
+    let version = typeof raw.schemaVersion === 'number' && Number.isInteger(raw.schemaVersion) && raw.schemaVersion >= 0
+        ? raw.schemaVersion
+        : 0;
+    const migratedFrom = version < SETTINGS_SCHEMA_VERSION ? version : null;
+    for (const migration of MIGRATIONS) {
+        if (migration.version > version) {
+            raw = migration.migrate(raw);
+            version = migration.version;
+        }
+    }
+
+    const newerVersion = version > SETTINGS_SCHEMA_VERSION ? version : null;
+    if (newerVersion !== null) {
+        // Written by a newer version of the extension; use what this version understands
+        repairs.push(`schemaVersion: ${version} is newer than ${SETTINGS_SCHEMA_VERSION}, unknown fields ignored`);
+    }
+
+    const { settings, repairs: fieldRepairs } = validateSettings(raw);
+    return { settings, migratedFrom, repairs: [...repairs, ...fieldRepairs], newerVersion };
+}
+
+// Checks every field against its expected type. Used for stored data after migration
+// and for changes sent by the pages before they are written.
+export function validateSettings(raw: RawSettings): { settings: FilterSettings; repairs: string[] } {
+    const defaults = createDefaultSettings();
+    const repairs: string[] = [];
+
+    const stringList = (key: keyof FilterSettings, fallback: string[]): string[] => {
+        const value = raw[key];
+        if (value === undefined) return fallback;
+        if (!Array.isArray(value)) {
+            repairs.push(`${key}: expected a list, reset to default`);
+            return fallback;
+        }
+        const entries = value.filter((entry): entry is string => typeof entry === 'string' && entry.trim() !== '');
+        const unique = Array.from(new Set(entries));
+        if (unique.length !== value.length) {
+            repairs.push(`${key}: dropped ${value.length - unique.length} empty, duplicate or non-text entries`);
+        }
+        return unique;
+    };
+
+    const flag = (key: keyof FilterSettings, fallback: boolean): boolean => {
+        const value = raw[key];
+        if (value === undefined) return fallback;
+        if (typeof value !== 'boolean') {
+            repairs.push(`${key}: expected true/false, reset to default`);
+            return fallback;
+        }
+        return value;
+    };
+
+    const modeMap = (key: keyof FilterSettings, validKey: (entryKey: string) => boolean): Record<string, HideMode> | undefined => {
+        const value = raw[key];
+        if (value === undefined) return undefined;
+        if (!isRecord(value)) {
+            repairs.push(`${key}: expected an object, cleared`);
+            return {};
+        }
+        const map: Record<string, HideMode> = {};
+        let dropped = 0;
+        Object.keys(value).forEach(entryKey => {
+            const mode = value[entryKey];
+            if (validKey(entryKey) && isHideMode(mode)) {
+                map[entryKey] = mode;
+            } else {
+                dropped++;
+            }
+        });
+        if (dropped > 0) {
+            repairs.push(`${key}: dropped ${dropped} entries that are not a known display mode`);
+        }
+        return map;
+    };
+
+    const stringMap = (key: keyof FilterSettings): Record<string, string> | undefined => {
+        const value = raw[key];
+        if (value === undefined) return undefined;
+        if (!isRecord(value)) {
+            repairs.push(`${key}: expected an object, cleared`);
+            return {};
+        }
+        const map: Record<string, string> = {};
+        let dropped = 0;
+        Object.keys(value).forEach(entryKey => {
+            if (typeof value[entryKey] === 'string') {
+                map[entryKey] = value[entryKey] as string;
+            } else {
+                dropped++;
+            }
+        });
+        if (dropped > 0) {
+            repairs.push(`${key}: dropped ${dropped} entries without a text value`);
+        }
+        return map;
+    };
+
+    const boundedNumber = (key: keyof FilterSettings, min: number, max: number, fallback: number): number => {
+        const value = raw[key];
+        if (value === undefined) return fallback;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            repairs.push(`${key}: expected a number, reset to default`);
+            return fallback;
+        }
+        const bounded = Math.min(max, Math.max(min, Math.round(value)));
+        if (bounded !== value) {
+            repairs.push(`${key}: ${value} is outside ${min}-${max}, set to ${bounded}`);
+        }
+        return bounded;
+    };
+
+    let hideMode = defaults.hideMode;
+    if (raw.hideMode !== undefined) {
+        if (isHideMode(raw.hideMode)) {
+            hideMode = raw.hideMode;
+        } else {
+            repairs.push(`hideMode: "${raw.hideMode}" is not a known display mode, reset to default`);
+        }
+    }
+
+    const settings: FilterSettings = {
+        schemaVersion: SETTINGS_SCHEMA_VERSION,
+        keywords: stringList('keywords', defaults.keywords),
+        subreddits: stringList('subreddits', defaults.subreddits),
+        blockedUsers: stringList('blockedUsers', defaults.blockedUsers),
+        enabled: flag('enabled', defaults.enabled),
+        minAccountAge: boundedNumber('minAccountAge', MIN_ACCOUNT_AGE, MAX_ACCOUNT_AGE, defaults.minAccountAge),
+        accountAgeFilterEnabled: flag('accountAgeFilterEnabled', defaults.accountAgeFilterEnabled),
+        accountAgeConcurrency: boundedNumber('accountAgeConcurrency', MIN_AGE_CONCURRENCY, MAX_AGE_CONCURRENCY, defaults.accountAgeConcurrency),
+        minPostKarma: boundedNumber('minPostKarma', 0, MAX_MIN_KARMA, defaults.minPostKarma),
+        minCommentKarma: boundedNumber('minCommentKarma', 0, MAX_MIN_KARMA, defaults.minCommentKarma),
+        filterUnverifiedEmail: flag('filterUnverifiedEmail', defaults.filterUnverifiedEmail),
+        filterSuspendedAccounts: flag('filterSuspendedAccounts', defaults.filterSuspendedAccounts),
+        exemptPremiumAccounts: flag('exemptPremiumAccounts', defaults.exemptPremiumAccounts),
+        commentFilterEnabled: flag('commentFilterEnabled', defaults.commentFilterEnabled),
+        allowedSubreddits: stringList(ALLOWLISTS.subreddits.settingsKey, defaults.allowedSubreddits),
+        allowedAuthors: stringList(ALLOWLISTS.authors.settingsKey, defaults.allowedAuthors),
+        allowedKeywords: stringList(ALLOWLISTS.keywords.settingsKey, defaults.allowedKeywords),
+        hideMode
+    };
+
+    const categoryHideModes = modeMap('categoryHideModes', entryKey => REMOVAL_CATEGORIES.includes(entryKey as RemovalCategory));
+    if (categoryHideModes) settings.categoryHideModes = categoryHideModes;
+    const ruleHideModes = modeMap('ruleHideModes', entryKey => entryKey.includes(':'));
+    if (ruleHideModes) settings.ruleHideModes = ruleHideModes;
+
+    const enabledPacks = raw.enabledPacks === undefined ? undefined : stringList('enabledPacks', []);
+    if (enabledPacks) settings.enabledPacks = enabledPacks;
+    const packVersions = stringMap('packVersions');
+    if (packVersions) settings.packVersions = packVersions;
+
+    // Removing a pack keyword by hand used to leave its source behind
+    const keywordSources = stringMap('keywordSources');
+    if (keywordSources) settings.keywordSources = dropOrphans('keywordSources', keywordSources, settings.keywords, repairs);
+    const subredditSources = stringMap('subredditSources');
+    if (subredditSources) settings.subredditSources = dropOrphans('subredditSources', subredditSources, settings.subreddits, repairs);
+
+    const packContents = contentsMap(raw.packContents, repairs);
+    if (packContents) settings.packContents = packContents;
+    const pinnedPacks = raw.pinnedPacks === undefined ? undefined : stringList('pinnedPacks', []);
+    if (pinnedPacks) settings.pinnedPacks = pinnedPacks;
+    const ruleSchedules = schedulesMap(raw.ruleSchedules, settings, repairs);
+    if (ruleSchedules) settings.ruleSchedules = ruleSchedules;
+
+    const known = new Set<string>([
+        ...Object.keys(settings),
+        'categoryHideModes',
+        'ruleHideModes',
+        'enabledPacks',
+        'packVersions',
+        'keywordSources',
+        'subredditSources',
+        'packContents',
+        'pinnedPacks',
+        'ruleSchedules'
+    ]);
+    Object.keys(raw).forEach(key => {
+        if (!known.has(key)) {
+            repairs.push(`${key}: unknown field dropped`);
+        }
+    });
+
+    return { settings, repairs };
+}
+
+function contentsMap(value: unknown, repairs: string[]): Record<string, PackContents> | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+        repairs.push('packContents: expected an object, cleared');
+        return {};
+    }
+    const isTextList = (list: unknown): list is string[] =>
+        Array.isArray(list) && list.every(entry => typeof entry === 'string');
+
+    const map: Record<string, PackContents> = {};
+    let dropped = 0;
+    Object.keys(value).forEach(packId => {
+        const contents = value[packId];
+        if (isRecord(contents) && isTextList(contents.keywords) && isTextList(contents.subreddits)) {
+            map[packId] = { keywords: contents.keywords, subreddits: contents.subreddits };
+        } else {
+            dropped++;
+        }
+    });
+    if (dropped > 0) {
+        repairs.push(`packContents: dropped ${dropped} malformed pack snapshots`);
+    }
+    return map;
+}
+
+// Keeps well-formed schedules of rules that are still in the lists
+function schedulesMap(value: unknown, settings: FilterSettings, repairs: string[]): Record<string, RuleSchedule> | undefined {
+    if (value === undefined) return undefined;
+    if (!isRecord(value)) {
+        repairs.push('ruleSchedules: expected an object, cleared');
+        return {};
+    }
+    const present = new Set([
+        ...settings.keywords.map(kw => ruleKey('keyword', kw)),
+        ...settings.subreddits.map(sub => ruleKey('subreddit', sub)),
+        ...(settings.enabledPacks || []).map(packId => ruleKey('pack', packId))
+    ]);
+
+    const map: Record<string, RuleSchedule> = {};
+    let dropped = 0;
+    Object.keys(value).forEach(key => {
+        const schedule = value[key];
+        if (isSchedulableKey(key) && present.has(key) && isValidSchedule(schedule)) {
+            map[key] = schedule;
+        } else {
+            dropped++;
+        }
+    });
+    if (dropped > 0) {
+        repairs.push(`ruleSchedules: dropped ${dropped} malformed schedules or schedules of removed rules`);
+    }
+    return map;
+}
+
+function dropOrphans(key: string, sources: Record<string, string>, entries: string[], repairs: string[]): Record<string, string> {
+    const present = new Set(entries);
+    const kept: Record<string, string> = {};
+    let dropped = 0;
+    Object.keys(sources).forEach(entry => {
+        if (present.has(entry)) {
+            kept[entry] = sources[entry];
+        } else {
+            dropped++;
+        }
+    });
+    if (dropped > 0) {
+        repairs.push(`${key}: dropped ${dropped} entries for items no longer in the list`);
+    }
+    return kept;
+}
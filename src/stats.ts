@@ -0,0 +1,143 @@
+import { FilterSettings } from './settings';
+
+// Per-rule hit statistics and the bounded "what got filtered" history.
+// Both live in browser.storage.local next to filterCounters.
+
+export type RuleKind = 'keyword' | 'subreddit' | 'user' | 'pack' | 'filter';
+
+export interface RuleHit {
+    hits: number;
+    lastHit: number; // epoch ms
+    addedAt?: number; // epoch ms the rule was added, unknown for rules older than this field
+}
+
+// Keyed by ruleKey(), e.g. "keyword:nfl" or "pack:sports"
+export type RuleHitStats = Record<string, RuleHit>;
+
+export interface HistoryEntry {
+    title: string;
+    url: string;
+    reason: string;
+    time: number; // epoch ms
+    kind: 'post' | 'comment';
+}
+
+export const HISTORY_LIMIT = 500;
+export const RULE_STATS_KEY = 'filterRuleStats';
+export const HISTORY_KEY = 'filterHistory';
+
+// Rule keys for the built-in filters that are not list entries
+export const ACCOUNT_AGE_RULE = 'filter:accountAge';
+export const POST_KARMA_RULE = 'filter:postKarma';
+export const COMMENT_KARMA_RULE = 'filter:commentKarma';
+export const UNVERIFIED_EMAIL_RULE = 'filter:unverifiedEmail';
+export const SUSPENDED_ACCOUNT_RULE = 'filter:suspendedAccount';
+
+export function ruleKey(kind: RuleKind, value: string): string {
+    return `${kind}:${value}`;
+}
+
+export function parseRuleKey(key: string): { kind: RuleKind; value: string } {
+    const separator = key.indexOf(':');
+    return {
+        kind: key.slice(0, separator) as RuleKind,
+        value: key.slice(separator + 1)
+    };
+}
+
+export function recordRuleHits(stats: RuleHitStats, keys: string[], time: number): RuleHitStats {
+    keys.forEach(key => {
+        const existing = stats[key];
+        stats[key] = {
+            ...existing,
+            hits: (existing?.hits || 0) + 1,
+            lastHit: Math.max(existing?.lastHit || 0, time)
+        };
+    });
+    return stats;
+}
+
+// The list rules and packs in `settings`, by ruleKey()
+export function settingsRuleKeys(settings: FilterSettings): string[] {
+    return [
+        ...settings.keywords.map(keyword => ruleKey('keyword', keyword)),
+        ...settings.subreddits.map(subreddit => ruleKey('subreddit', subreddit)),
+        ...settings.blockedUsers.map(user => ruleKey('user', user)),
+        ...(settings.enabledPacks || []).map(packId => ruleKey('pack', packId))
+    ];
+}
+
+// Stamps the rules in `after` that were not in `before` with the time they were added,
+// so a new rule does not count as dead before it had a chance to match, and forgets
+// the stats of removed rules. Built-in filters keep theirs while switched off.
+// Returns whether anything changed.
+export function reconcileRuleStats(stats: RuleHitStats, before: string[], after: string[], now: number): boolean {
+    const previous = new Set(before);
+    const current = new Set(after);
+    let changed = false;
+    current.forEach(key => {
+        if (previous.has(key)) return;
+        stats[key] = { ...(stats[key] || { hits: 0, lastHit: 0 }), addedAt: now };
+        changed = true;
+    });
+    previous.forEach(key => {
+        if (current.has(key) || !stats[key] || parseRuleKey(key).kind === 'filter') return;
+        delete stats[key];
+        changed = true;
+    });
+    return changed;
+}
+
+// Newest entries first, capped at HISTORY_LIMIT
+export function appendHistory(history: HistoryEntry[], entries: HistoryEntry[]): HistoryEntry[] {
+    return [...entries.slice().reverse(), ...history].slice(0, HISTORY_LIMIT);
+}
+
+// Rolling per-day removal counts, broken down by what kind of rule removed the item
+export type RemovalCategory = 'keyword' | 'subreddit' | 'user' | 'accountAge';
+
+export const REMOVAL_CATEGORIES: RemovalCategory[] = ['keyword', 'subreddit', 'user', 'accountAge'];
+
+export type DailyBreakdown = Record<RemovalCategory, number>;
+
+// Keyed by localDateKey(), e.g. "2026-01-25"
+export type DailySeries = Record<string, DailyBreakdown>;
+
+export const DAILY_SERIES_DAYS = 90;
+
+export function localDateKey(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function emptyBreakdown(): DailyBreakdown {
+    return { keyword: 0, subreddit: 0, user: 0, accountAge: 0 };
+}
+
+// The category is taken from the first matched rule, which is the one named in the removal reason
+export function removalCategory(matchedRules: string[]): RemovalCategory {
+    const { kind } = parseRuleKey(matchedRules[0] || '');
+    if (kind === 'subreddit' || kind === 'user') return kind;
+    // Every built-in filter looks at the author's profile
+    if (kind === 'filter') return 'accountAge';
+    return 'keyword';
+}
+
+export function recordDailyRemoval(series: DailySeries, category: RemovalCategory, date: Date): DailySeries {
+    const key = localDateKey(date);
+    const day = { ...emptyBreakdown(), ...series[key] };
+    day[category]++;
+    series[key] = day;
+
+    // Drop days that have rolled out of the window
+    const cutoff = new Date(date);
+    cutoff.setDate(cutoff.getDate() - DAILY_SERIES_DAYS);
+    const cutoffKey = localDateKey(cutoff);
+    Object.keys(series).forEach(dayKey => {
+        if (dayKey <= cutoffKey) {
+            delete series[dayKey];
+        }
+    });
+    return series;
+}
@@ -0,0 +1,301 @@
+import { FilterSettings } from './settings';
+
+// Opt-in cross-device sync through browser.storage.sync. Rules and options are kept
+// in a SyncDocument where every rule carries the time it was last added or removed;
+// removed rules stay as tombstones so a deletion on one device is not undone by
+// another device that still has the rule. Merging two documents keeps the newer
+// stamp for each rule (last writer wins). Counters, statistics and caches never sync.
+//
+// storage.sync limits each item to 8 KB, so the document is stored as JSON split
+// across numbered chunk items plus a manifest naming how many chunks to read.
+
+export const SYNC_STATE_KEY = 'syncState'; // in storage.local
+export const SYNC_MANIFEST_KEY = 'syncManifest'; // in storage.sync
+export const SYNC_CHUNK_PREFIX = 'syncChunk';
+
+// Below QUOTA_BYTES_PER_ITEM (8192), which counts the key and the JSON-encoded value
+export const SYNC_CHUNK_BYTES = 7000;
+// Below QUOTA_BYTES (102400) to leave room for the manifest
+export const SYNC_TOTAL_BYTES = 96000;
+
+export const TOMBSTONE_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+
+export const SYNC_LIST_FIELDS = [
+    'keywords',
+    'subreddits',
+    'blockedUsers',
+    'allowedSubreddits',
+    'allowedAuthors',
+    'allowedKeywords',
+    'enabledPacks',
+    'pinnedPacks'
+] as const;
+
+export const SYNC_OPTION_FIELDS = [
+    'enabled',
+    'minAccountAge',
+    'accountAgeFilterEnabled',
+    'accountAgeConcurrency',
+    'minPostKarma',
+    'minCommentKarma',
+    'filterUnverifiedEmail',
+    'filterSuspendedAccounts',
+    'exemptPremiumAccounts',
+    'commentFilterEnabled',
+    'hideMode',
+    'categoryHideModes',
+    'ruleHideModes',
+    'packVersions',
+    'packContents',
+    'ruleSchedules'
+] as const;
+
+type SyncListField = typeof SYNC_LIST_FIELDS[number];
+type SyncOptionField = typeof SYNC_OPTION_FIELDS[number];
+
+// Pack sources travel with their rule
+const SOURCE_FIELDS: Partial<Record<SyncListField, 'keywordSources' | 'subredditSources'>> = {
+    keywords: 'keywordSources',
+    subreddits: 'subredditSources'
+};
+
+// Short property names keep large keyword lists within the sync quota
+export interface RuleStamp {
+    t: number; // epoch ms of the last add or remove
+    d?: 1; // tombstone: the rule was removed at t
+    s?: string; // packId the rule came from
+}
+
+export interface OptionStamp {
+    v: unknown;
+    t: number;
+}
+
+export interface SyncDocument {
+    rules: Partial<Record<SyncListField, Record<string, RuleStamp>>>;
+    options: Partial<Record<SyncOptionField, OptionStamp>>;
+}
+
+export interface SyncManifest {
+    chunks: number;
+    updatedAt: number;
+    deviceId: string; // lets a device ignore storage.sync changes it made itself
+}
+
+// Local bookkeeping for this device, never synced
+export interface SyncState {
+    enabled: boolean;
+    deviceId: string;
+    lastDocument: SyncDocument | null; // document as of the last successful sync
+    lastSyncedAt: number | null;
+    lastError: string | null;
+}
+
+// What storage.sync holds. A manifest whose chunks do not all join is unreadable rather
+// than missing: writing over it would drop the other devices' rules and tombstones.
+export type RemoteDocument =
+    | { status: 'missing' }
+    | { status: 'unreadable' }
+    | { status: 'found'; doc: SyncDocument };
+
+export interface SyncStatus {
+    enabled: boolean;
+    lastSyncedAt: number | null;
+    lastError: string | null;
+}
+
+export function createSyncState(): SyncState {
+    return {
+        enabled: false,
+        deviceId: Math.random().toString(36).slice(2) + Date.now().toString(36),
+        lastDocument: null,
+        lastSyncedAt: null,
+        lastError: null
+    };
+}
+
+function optionValue(settings: FilterSettings, field: SyncOptionField): unknown {
+    if (field === 'packVersions' || field === 'packContents' || field === 'categoryHideModes' || field === 'ruleHideModes' ||
+        field === 'ruleSchedules') {
+        return settings[field] || {};
+    }
+    return settings[field];
+}
+
+// Stamps the current settings against the document from the last sync: rules that
+// appeared or changed pack get `now`, rules that disappeared become tombstones.
+// Without a previous document (sync was just enabled) everything is stamped 0, so the
+// first merge prefers what the other devices have already synced and only adds the
+// rules they do not know about.
+export function stampDocument(settings: FilterSettings, previous: SyncDocument | null, now: number): SyncDocument {
+    const doc: SyncDocument = { rules: {}, options: {} };
+    const changedAt = previous ? now : 0;
+
+    SYNC_LIST_FIELDS.forEach(field => {
+        const before = previous?.rules[field] || {};
+        const sourceField = SOURCE_FIELDS[field];
+        const sources = sourceField ? settings[sourceField] || {} : {};
+        const entries = settings[field] || [];
+        const stamps: Record<string, RuleStamp> = {};
+
+        entries.forEach(entry => {
+            const stamp = before[entry];
+            const source = sources[entry];
+            if (stamp && !stamp.d && stamp.s === source) {
+                stamps[entry] = stamp;
+            } else {
+                stamps[entry] = source ? { t: changedAt, s: source } : { t: changedAt };
+            }
+        });
+        Object.keys(before).forEach(entry => {
+            if (stamps[entry]) return;
+            stamps[entry] = before[entry].d ? before[entry] : { t: now, d: 1 };
+        });
+
+        doc.rules[field] = stamps;
+    });
+
+    SYNC_OPTION_FIELDS.forEach(field => {
+        const stamp = previous?.options[field];
+        const value = optionValue(settings, field);
+        doc.options[field] = stamp && JSON.stringify(stamp.v) === JSON.stringify(value)
+            ? stamp
+            : { v: value, t: changedAt };
+    });
+
+    return doc;
+}
+
+// Newer stamp wins per rule and per option. On a tie a removal beats an add, and
+// otherwise the remote document wins.
+export function mergeDocuments(local: SyncDocument, remote: SyncDocument): SyncDocument {
+    const merged: SyncDocument = { rules: {}, options: {} };
+
+    SYNC_LIST_FIELDS.forEach(field => {
+        const ours = local.rules[field] || {};
+        const theirs = remote.rules[field] || {};
+        const stamps: Record<string, RuleStamp> = { ...ours };
+        Object.keys(theirs).forEach(entry => {
+            const mine = stamps[entry];
+            const other = theirs[entry];
+            if (!mine || other.t > mine.t || (other.t === mine.t && (other.d || !mine.d))) {
+                stamps[entry] = other;
+            }
+        });
+        merged.rules[field] = stamps;
+    });
+
+    SYNC_OPTION_FIELDS.forEach(field => {
+        const ours = local.options[field];
+        const theirs = remote.options[field];
+        const winner = !ours || (theirs && theirs.t >= ours.t) ? theirs : ours;
+        if (winner) merged.options[field] = winner;
+    });
+
+    return merged;
+}
+
+export function pruneTombstones(doc: SyncDocument, now: number): SyncDocument {
+    SYNC_LIST_FIELDS.forEach(field => {
+        const stamps = doc.rules[field];
+        if (!stamps) return;
+        Object.keys(stamps).forEach(entry => {
+            if (stamps[entry].d && now - stamps[entry].t > TOMBSTONE_TTL_MS) {
+                delete stamps[entry];
+            }
+        });
+    });
+    return doc;
+}
+
+// Applies the live rules and options of a document on top of `base`
+export function documentToSettings(doc: SyncDocument, base: FilterSettings): FilterSettings {
+    const settings: FilterSettings = { ...base };
+
+    SYNC_LIST_FIELDS.forEach(field => {
+        const stamps = doc.rules[field];
+        if (!stamps) return;
+        const live = Object.keys(stamps).filter(entry => !stamps[entry].d);
+        settings[field] = live;
+
+        const sourceField = SOURCE_FIELDS[field];
+        if (sourceField) {
+            const sources: Record<string, string> = {};
+            live.forEach(entry => {
+                const source = stamps[entry].s;
+                if (source) sources[entry] = source;
+            });
+            settings[sourceField] = sources;
+        }
+    });
+
+    SYNC_OPTION_FIELDS.forEach(field => {
+        const stamp = doc.options[field];
+        if (stamp) {
+            (settings as unknown as Record<string, unknown>)[field] = stamp.v;
+        }
+    });
+
+    return settings;
+}
+
+function utf8Length(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+// Splits the document into chunk items that each fit the per-item quota.
+// Throws when the whole document would not fit in storage.sync.
+export function chunkDocument(doc: SyncDocument): string[] {
+    const json = JSON.stringify(doc);
+    const chunks: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    let totalBytes = 0;
+
+    // Iterate by code point so surrogate pairs are never split across chunks
+    for (const char of json) {
+        // Quotes and backslashes grow when storage.sync JSON-encodes the chunk string
+        const bytes = utf8Length(JSON.stringify(char)) - 2;
+        if (currentBytes + bytes > SYNC_CHUNK_BYTES) {
+            chunks.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+        totalBytes += bytes;
+    }
+    if (current) chunks.push(current);
+
+    if (totalBytes > SYNC_TOTAL_BYTES) {
+        throw new Error(`Settings are too large to sync (${Math.ceil(totalBytes / 1024)} KB of ${Math.floor(SYNC_TOTAL_BYTES / 1024)} KB)`);
+    }
+    return chunks;
+}
+
+export function chunkKey(index: number): string {
+    return `${SYNC_CHUNK_PREFIX}${index}`;
+}
+
+// Returns null when chunks are missing, e.g. while another device is mid-write
+export function joinChunks(manifest: SyncManifest, items: Record<string, unknown>): SyncDocument | null {
+    let json = '';
+    for (let i = 0; i < manifest.chunks; i++) {
+        const chunk = items[chunkKey(i)];
+        if (typeof chunk !== 'string') return null;
+        json += chunk;
+    }
+    try {
+        const doc = JSON.parse(json) as SyncDocument;
+        return typeof doc === 'object' && doc !== null && doc.rules && doc.options ? doc : null;
+    } catch (error) {
+        return null;
+    }
+}
+
+export function readRemoteDocument(items: Record<string, unknown>): RemoteDocument {
+    const manifest = items[SYNC_MANIFEST_KEY] as SyncManifest | undefined;
+    if (!manifest) return { status: 'missing' };
+    const doc = joinChunks(manifest, items);
+    return doc ? { status: 'found', doc } : { status: 'unreadable' };
+}
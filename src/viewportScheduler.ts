@@ -0,0 +1,119 @@
+// Runs slow per-element work (account-age lookups) for the elements nearest the
+// viewport first. Work starts once an element is within `margin` pixels of the
+// viewport, so a post can be hidden before the user scrolls to it, and at most
+// `concurrency` elements are worked on at once. Elements that leave that zone before
+// their turn are skipped, and running work on them is cancelled; both are picked up
+// again if the element comes back.
+
+export interface ViewportSchedulerOptions {
+    concurrency: number;
+    margin: number; // pixels above and below the viewport
+}
+
+function distanceToViewport(element: Element): number {
+    const rect = element.getBoundingClientRect();
+    if (rect.bottom < 0) return -rect.bottom;
+    if (rect.top > window.innerHeight) return rect.top - window.innerHeight;
+    return 0;
+}
+
+export class ViewportScheduler<T> {
+    private items = new Map<Element, T>();
+    private inZone = new Set<Element>();
+    private running = new Set<Element>();
+    private cancelled = new Set<Element>();
+    private done = new WeakSet<Element>();
+    private observer: IntersectionObserver;
+
+    constructor(
+        private process: (element: Element, item: T) => Promise<void>,
+        private cancel: (element: Element, item: T) => void,
+        private options: ViewportSchedulerOptions
+    ) {
+        this.observer = new IntersectionObserver(entries => this.handleIntersections(entries), {
+            rootMargin: `${options.margin}px 0px`
+        });
+    }
+
+    // Returns false when the element is already waiting, running or done
+    add(element: Element, item: T): boolean {
+        if (this.items.has(element) || this.done.has(element)) return false;
+        this.items.set(element, item);
+        this.observer.observe(element);
+        return true;
+    }
+
+    get size(): number {
+        return this.items.size;
+    }
+
+    destroy(): void {
+        this.observer.disconnect();
+        this.running.forEach(element => this.cancel(element, this.items.get(element)!));
+        this.items.clear();
+        this.inZone.clear();
+        this.running.clear();
+        this.cancelled.clear();
+    }
+
+    private handleIntersections(entries: IntersectionObserverEntry[]): void {
+        entries.forEach(entry => {
+            const element = entry.target;
+            const item = this.items.get(element);
+            if (item === undefined) return;
+
+            if (entry.isIntersecting) {
+                this.inZone.add(element);
+                return;
+            }
+            this.inZone.delete(element);
+            if (this.running.has(element) && !this.cancelled.has(element)) {
+                this.cancelled.add(element);
+                this.cancel(element, item);
+            }
+            if (!element.isConnected) {
+                this.forget(element);
+            }
+        });
+        this.pump();
+    }
+
+    private forget(element: Element): void {
+        this.observer.unobserve(element);
+        this.items.delete(element);
+        this.inZone.delete(element);
+    }
+
+    private pump(): void {
+        while (this.running.size < this.options.concurrency) {
+            const waiting = Array.from(this.inZone).filter(element => !this.running.has(element));
+            if (waiting.length === 0) return;
+
+            // Closest to the viewport first
+            const next = waiting
+                .map(element => ({ element, distance: distanceToViewport(element) }))
+                .sort((a, b) => a.distance - b.distance)[0].element;
+            if (!next.isConnected) {
+                this.forget(next);
+                continue;
+            }
+            this.start(next);
+        }
+    }
+
+    private start(element: Element): void {
+        this.running.add(element);
+        this.process(element, this.items.get(element)!)
+            .catch(error => console.error('Error processing element:', error))
+            .then(() => {
+                if (!this.running.delete(element)) return; // destroyed meanwhile
+                if (this.cancelled.delete(element)) {
+                    // Scrolled away before the result came in; tried again if it comes back
+                    return;
+                }
+                this.forget(element);
+                this.done.add(element);
+            })
+            .then(() => this.pump());
+    }
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    applyImport,
+    createConfigFile,
+    diffSettings,
+    parseConfigFile,
+    removePacks,
+    renamePack,
+    unknownPackIds
+} from '../src/configFile';
+import { createDefaultSettings } from '../src/settings';
+
+describe('unknown packs', () => {
+    it('drops packs this browser does not have and keeps their rules', () => {
+        const settings = {
+            ...createDefaultSettings(),
+            keywords: ['nfl', 'crypto'],
+            enabledPacks: ['sports', 'friends-pack'],
+            pinnedPacks: ['friends-pack'],
+            packVersions: { sports: '1.0.0', 'friends-pack': '2.0.0' },
+            keywordSources: { nfl: 'sports', crypto: 'friends-pack' },
+            ruleHideModes: { 'pack:friends-pack': 'blur' as const }
+        };
+
+        const unknown = unknownPackIds(settings, ['sports']);
+        assert.deepEqual(unknown, ['friends-pack']);
+        removePacks(settings, unknown);
+        assert.deepEqual(settings.enabledPacks, ['sports']);
+        assert.deepEqual(settings.pinnedPacks, []);
+        assert.deepEqual(settings.packVersions, { sports: '1.0.0' });
+        assert.deepEqual(settings.keywordSources, { nfl: 'sports' });
+        assert.deepEqual(settings.ruleHideModes, {});
+        assert.deepEqual(settings.keywords, ['nfl', 'crypto']);
+    });
+
+    it('finds nothing when the settings only name known packs', () => {
+        const settings = { ...createDefaultSettings(), enabledPacks: ['sports'] };
+        assert.deepEqual(unknownPackIds(settings, ['sports']), []);
+    });
+
+    it('moves everything a pack owns to the id it was subscribed under', () => {
+        const settings = {
+            ...createDefaultSettings(),
+            keywords: ['crypto'],
+            enabledPacks: ['remote-friends'],
+            packVersions: { 'remote-friends': '2.0.0' },
+            keywordSources: { crypto: 'remote-friends' },
+            ruleSchedules: { 'pack:remote-friends': { expiresAt: 1000 } }
+        };
+
+        renamePack(settings, 'remote-friends', 'remote-friends-2');
+        assert.deepEqual(settings.enabledPacks, ['remote-friends-2']);
+        assert.deepEqual(settings.packVersions, { 'remote-friends-2': '2.0.0' });
+        assert.deepEqual(settings.keywordSources, { crypto: 'remote-friends-2' });
+        assert.deepEqual(settings.ruleSchedules, { 'pack:remote-friends-2': { expiresAt: 1000 } });
+    });
+});
+
+describe('parseConfigFile', () => {
+    it('reads back the pack subscriptions an export carries', () => {
+        const pack = { version: '1.0.0', name: 'Friends', description: '', keywords: ['crypto'], subreddits: [] };
+        const file = createConfigFile(createDefaultSettings(), {
+            'remote-friends': { url: 'https://example.org/friends.json', pack, lastUpdated: 0, lastChecked: null, lastError: null }
+        });
+
+        const result = parseConfigFile(JSON.stringify(file));
+        assert.ok(result.ok);
+        assert.deepEqual(result.packs, { 'remote-friends': { url: 'https://example.org/friends.json', pack } });
+    });
+});
+
+describe('diffSettings', () => {
+    it('reports a replace import that only changes schedules and hide modes', () => {
+        const current = {
+            ...createDefaultSettings(),
+            keywords: ['nfl'],
+            ruleHideModes: { 'keyword:nfl': 'dim' as const },
+            ruleSchedules: { 'keyword:nfl': { expiresAt: 1000 } }
+        };
+        const imported = {
+            ...current,
+            ruleHideModes: { 'keyword:nfl': 'blur' as const },
+            categoryHideModes: { subreddit: 'remove' as const },
+            ruleSchedules: {}
+        };
+
+        const changes = diffSettings(current, applyImport(current, imported, 'replace'));
+        assert.deepEqual(changes, [
+            { field: 'ruleSchedules', added: [], removed: ['keyword:nfl'], updated: [] },
+            { field: 'categoryHideModes', added: ['subreddit = remove'], removed: [], updated: [] },
+            { field: 'ruleHideModes', added: [], removed: [], updated: ['keyword:nfl = dim → blur'] }
+        ]);
+    });
+});
@@ -0,0 +1,37 @@
+// Runs the content script's modules in Node: a jsdom window stands in for the Reddit
+// tab. Import this before anything from src/, since webextension-polyfill checks for
+// an extension environment as soon as it is loaded.
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { JSDOM } from 'jsdom';
+
+const FIXTURES = join(__dirname, 'fixtures', 'reddit');
+
+// The DOM globals the content script uses
+const GLOBALS = ['window', 'document', 'DOMParser', 'Node', 'Element', 'HTMLElement', 'MutationObserver'] as const;
+
+// Like Firefox, which has both globals: the polyfill then uses `browser` as is. Nothing
+// here answers messages: the code under test never waits on the background script.
+const extensionApi = {
+    runtime: {
+        id: 'reddit-refine-test',
+        sendMessage: () => Promise.resolve(undefined),
+        onMessage: { addListener: () => undefined }
+    }
+};
+Object.assign(globalThis, { browser: extensionApi, chrome: extensionApi });
+
+export function readFixture(name: string): string {
+    return readFileSync(join(FIXTURES, name), 'utf8');
+}
+
+// Replaces the global document with a fresh one showing `html`, as if `url` were open
+export function loadPage(html: string, url = 'https://www.reddit.com/'): Document {
+    const { window } = new JSDOM(html, { url });
+    GLOBALS.forEach(name => {
+        Object.assign(globalThis, { [name]: window[name] });
+    });
+    return window.document;
+}
+
+loadPage('<!DOCTYPE html><html><body></body></html>');
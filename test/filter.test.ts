@@ -0,0 +1,138 @@
+import { loadPage, readFixture } from './dom';
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { Filter } from '../src/filter';
+import { ACTIONS_ATTRIBUTE, addQuickActions } from '../src/quickActions';
+import { createDefaultSettings, FilterSettings } from '../src/settings';
+
+function createFilter(settings: Partial<FilterSettings>): Filter {
+    const filter = new Filter();
+    filter.settings = { ...createDefaultSettings(), ...settings };
+    filter.rebuildMatcher();
+    return filter;
+}
+
+function findPost(doc: Document, id: string): Element {
+    const post = doc.getElementById(id);
+    assert.ok(post, `fixture has no post ${id}`);
+    return post;
+}
+
+describe('Filter', () => {
+    let doc: Document;
+
+    beforeEach(() => {
+        doc = loadPage(readFixture('feed.html'));
+    });
+
+    describe('convertElementToPost', () => {
+        it('reads the fields of a text post', () => {
+            const post = createFilter({}).convertElementToPost(findPost(doc, 't3_1feed01'));
+            assert.equal(post.title, 'NFL playoff picture after Week 17');
+            assert.equal(post.url, 'https://www.reddit.com/r/nfl/comments/1feed01/nfl_playoff_picture_after_week_17/');
+            assert.equal(post.author, 'gridiron_fan');
+            assert.equal(post.subreddit, 'r/nfl');
+            assert.equal(post.flair, 'Discussion');
+            assert.equal(post.body, 'Who still controls their own destiny?');
+            assert.equal(post.postType, 'text');
+            assert.equal(post.domain, '');
+            assert.equal(post.shouldRemove, false);
+        });
+
+        it('takes the domain of a link post from its outbound URL', () => {
+            const post = createFilter({}).convertElementToPost(findPost(doc, 't3_1feed02'));
+            assert.equal(post.postType, 'link');
+            assert.equal(post.domain, 'example.org');
+        });
+
+        it('reads flags and normalizes Reddit\'s post types', () => {
+            const filter = createFilter({});
+            const spoiler = filter.convertElementToPost(findPost(doc, 't3_1feed03'));
+            assert.equal(spoiler.spoiler, true);
+            assert.equal(spoiler.nsfw, false);
+            assert.equal(filter.convertElementToPost(findPost(doc, 't3_1feed04')).postType, 'text');
+        });
+
+        it('marks a post in a blocked subreddit for removal', () => {
+            const post = createFilter({ subreddits: ['r/NFL'] }).convertElementToPost(findPost(doc, 't3_1feed01'));
+            assert.equal(post.shouldRemove, true);
+            assert.deepEqual(post.matchedRules, ['subreddit:r/nfl']);
+            assert.equal(post.removalReason, 'blocked subreddit: r/nfl');
+        });
+
+        it('marks a post by a blocked user for removal', () => {
+            const post = createFilter({ blockedUsers: ['Solder_Smoke'] }).convertElementToPost(findPost(doc, 't3_1feed02'));
+            assert.equal(post.shouldRemove, true);
+            assert.equal(post.removalReason, 'blocked user: u/solder_smoke');
+        });
+
+        it('matches keywords against the title of the surrounding article', () => {
+            const post = createFilter({ keywords: ['playoff'] }).convertElementToPost(findPost(doc, 't3_1feed01'));
+            assert.equal(post.shouldRemove, true);
+            assert.deepEqual(post.matchedKeywords, ['playoff']);
+            assert.equal(post.removalReason, 'keyword "playoff" matched');
+        });
+
+        it('lets allowlist rules win over block rules', () => {
+            const post = createFilter({ subreddits: ['r/nfl'], allowedAuthors: ['gridiron_fan'] })
+                .convertElementToPost(findPost(doc, 't3_1feed01'));
+            assert.equal(post.shouldRemove, false);
+            assert.equal(post.allowedBy, 'allowed user u/gridiron_fan');
+        });
+    });
+
+    describe('findMatchingKeywords', () => {
+        it('returns every matching rule, including field-prefixed ones', () => {
+            const filter = createFilter({ keywords: ['nfl', 'flair:discussion', 'weather'] });
+            const post = filter.convertElementToPost(findPost(doc, 't3_1feed01'));
+            assert.deepEqual(filter.findMatchingKeywords(post).sort(), ['flair:discussion', 'nfl']);
+        });
+
+        it('matches whole words only', () => {
+            const filter = createFilter({ keywords: ['pi'] });
+            const post = filter.convertElementToPost(findPost(doc, 't3_1feed02'));
+            assert.deepEqual(filter.findMatchingKeywords(post), ['pi']);
+            assert.deepEqual(filter.findMatchingKeywords({ ...post, title: 'Pies of the world' }), []);
+        });
+
+        it('skips keywords outside their schedule', () => {
+            const filter = createFilter({
+                keywords: ['nfl'],
+                ruleSchedules: { 'keyword:nfl': { expiresAt: Date.now() - 1000 } }
+            });
+            const post = filter.convertElementToPost(findPost(doc, 't3_1feed01'));
+            assert.deepEqual(filter.findMatchingKeywords(post), []);
+        });
+    });
+
+    describe('isBlockedSubreddit', () => {
+        it('compares subreddit names case-insensitively', () => {
+            const filter = createFilter({ subreddits: ['r/AskHistorians'] });
+            assert.equal(filter.isBlockedSubreddit('r/askhistorians'), true);
+            assert.equal(filter.isBlockedSubreddit('r/AskScience'), false);
+        });
+
+        it('ignores subreddits whose weekly window is closed', () => {
+            const now = new Date();
+            const otherDay = (now.getDay() + 3) % 7;
+            const filter = createFilter({
+                subreddits: ['r/nfl'],
+                ruleSchedules: { 'subreddit:r/nfl': { weekly: { days: [otherDay], start: 0, end: 60 } } }
+            });
+            assert.equal(filter.isBlockedSubreddit('r/nfl'), false);
+        });
+    });
+
+    describe('destroy', () => {
+        it('removes the Filter menus so the next filter adds its own', () => {
+            const filter = createFilter({});
+            const ele = findPost(doc, 't3_1feed01');
+            addQuickActions(ele, filter.convertElementToPost(ele), action => filter.applyQuickAction(action));
+            assert.equal(doc.querySelectorAll('.reddit-filter-actions').length, 1);
+
+            filter.destroy();
+            assert.equal(doc.querySelectorAll('.reddit-filter-actions').length, 0);
+            assert.equal(ele.hasAttribute(ACTIONS_ATTRIBUTE), false);
+        });
+    });
+});
@@ -0,0 +1,154 @@
+// Checks that hiding a post keeps Reddit's live elements working. Build with
+// `npm run build:fixtures` and open dist/fixtures/collapse.html in a browser.
+import { EXPANDED_ATTRIBUTE, HIDDEN_ATTRIBUTE, hidePost } from '../../src/hide';
+import { HIDE_MODES, HideMode } from '../../src/hideMode';
+
+// Stand-in for shreddit-post: state lives on the element, the vote button's listener
+// lives in the shadow root, and connectedCallback counts how often it was (re)mounted
+class MockShredditPost extends HTMLElement {
+    public score = 0;
+    public menuOpened = 0;
+    public mounted = 0;
+    private scoreLabel: HTMLSpanElement;
+
+    constructor() {
+        super();
+        const root = this.attachShadow({ mode: 'open' });
+
+        const title = document.createElement('strong');
+        title.textContent = this.getAttribute('post-title') || 'Untitled';
+
+        const vote = document.createElement('button');
+        vote.className = 'vote';
+        vote.textContent = 'Upvote';
+        vote.addEventListener('click', () => {
+            this.score++;
+            this.scoreLabel.textContent = ` ${this.score} points `;
+        });
+
+        this.scoreLabel = document.createElement('span');
+        this.scoreLabel.textContent = ' 0 points ';
+
+        root.appendChild(title);
+        root.appendChild(this.scoreLabel);
+        root.appendChild(vote);
+        root.appendChild(document.createElement('slot'));
+    }
+
+    connectedCallback(): void {
+        this.mounted++;
+    }
+
+    vote(): void {
+        this.shadowRoot?.querySelector<HTMLButtonElement>('.vote')?.click();
+    }
+}
+
+customElements.define('shreddit-post', MockShredditPost);
+
+function createPost(feed: HTMLElement, title: string, inArticle: boolean): MockShredditPost {
+    const post = document.createElement('shreddit-post') as MockShredditPost;
+    post.setAttribute('post-title', title);
+
+    const menu = document.createElement('button');
+    menu.className = 'menu';
+    menu.textContent = 'Menu';
+    menu.addEventListener('click', () => {
+        post.menuOpened++;
+    });
+    post.appendChild(menu);
+
+    if (inArticle) {
+        const article = document.createElement('article');
+        article.setAttribute('aria-label', title);
+        article.appendChild(post);
+        feed.appendChild(article);
+    } else {
+        feed.appendChild(post);
+    }
+    return post;
+}
+
+function findBanner(post: MockShredditPost): HTMLElement | null {
+    const article = post.closest('article');
+    const banner = article ? article.firstElementChild : post.previousElementSibling;
+    return banner && banner !== post ? banner as HTMLElement : null;
+}
+
+function isVisible(element: HTMLElement): boolean {
+    for (let node: HTMLElement | null = element; node; node = node.parentElement) {
+        const style = getComputedStyle(node);
+        if (style.display === 'none' || style.filter !== 'none' || style.opacity !== '1') {
+            return false;
+        }
+    }
+    return true;
+}
+
+// Returns the failed expectations for one mode and placement
+function runCase(feed: HTMLElement, mode: HideMode, inArticle: boolean): string[] {
+    const failures: string[] = [];
+    const expect = (ok: boolean, message: string) => {
+        if (!ok) failures.push(message);
+    };
+
+    const post = createPost(feed, `${mode}, ${inArticle ? 'inside an article' : 'bare shreddit-post'}`, inArticle);
+    const target = (post.closest('article') || post) as HTMLElement;
+    post.vote();
+
+    expect(hidePost(post, 'fixture rule', mode), 'hidePost did not hide the post');
+    expect(!hidePost(post, 'fixture rule', mode), 'hiding the same post twice would count it twice');
+    expect(target.getAttribute(HIDDEN_ATTRIBUTE) === mode, `${HIDDEN_ATTRIBUTE} is not "${mode}"`);
+    expect(post.isConnected, 'the original element was taken out of the page');
+    expect(!isVisible(post), 'the post is still fully visible after hiding');
+
+    if (mode !== 'remove') {
+        const banner = findBanner(post);
+        const toggle = banner?.querySelector('button');
+        expect(!!toggle, 'no banner with a Show button');
+        toggle?.click();
+        expect(target.getAttribute(EXPANDED_ATTRIBUTE) === 'true', `${EXPANDED_ATTRIBUTE} not set after Show`);
+        expect(isVisible(post), 'the post is not visible after Show');
+    }
+
+    // Listeners and state of the original element must have survived
+    post.vote();
+    post.querySelector<HTMLButtonElement>('.menu')?.click();
+    expect(post.score === 2, `vote state lost: score is ${post.score}, expected 2`);
+    expect(post.menuOpened === 1, 'light DOM listener did not fire after expanding');
+    expect(post.mounted === 1, `element was remounted ${post.mounted - 1} time(s)`);
+
+    if (mode !== 'remove') {
+        // Hide again, then show again: the same element keeps working across cycles
+        findBanner(post)?.querySelector('button')?.click();
+        expect(!isVisible(post), 'Hide did not hide the post again');
+        findBanner(post)?.querySelector('button')?.click();
+        post.vote();
+        expect(post.score === 3, 'vote listener lost after a second collapse/expand cycle');
+    }
+
+    return failures;
+}
+
+function main(): void {
+    const feed = document.getElementById('feed');
+    const results = document.getElementById('results');
+    if (!feed || !results) return;
+
+    let failed = 0;
+    HIDE_MODES.forEach(mode => {
+        [true, false].forEach(inArticle => {
+            const failures = runCase(feed, mode, inArticle);
+            const item = document.createElement('li');
+            const name = `${mode} (${inArticle ? 'article' : 'bare shreddit-post'})`;
+            item.className = failures.length === 0 ? 'pass' : 'fail';
+            item.textContent = failures.length === 0 ? `PASS ${name}` : `FAIL ${name}: ${failures.join('; ')}`;
+            results.appendChild(item);
+            failed += failures.length === 0 ? 0 : 1;
+        });
+    });
+
+    console.log(failed === 0 ? '✅ All collapse checks passed' : `❌ ${failed} collapse check(s) failed`);
+}
+
+main();
@@ -0,0 +1,36 @@
+const path = require('path');
+const CopyPlugin = require('copy-webpack-plugin');
+
+// Builds the browser test pages in test/fixtures into dist/fixtures.
+// Open dist/fixtures/<name>.html directly in a browser; no extension needed.
+module.exports = {
+  entry: {
+    collapse: path.resolve(__dirname, 'collapse.fixture.ts'),
+  },
+  mode: 'development',
+  devtool: 'source-map',
+  output: {
+    path: path.resolve(__dirname, '..', '..', 'dist', 'fixtures'),
+    filename: '[name].js',
+    clean: true,
+  },
+  plugins: [
+    new CopyPlugin({
+      patterns: [
+        { from: path.resolve(__dirname, '*.html'), to: '[name][ext]' },
+      ],
+    }),
+  ],
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        use: 'ts-loader',
+        exclude: /node_modules/,
+      },
+    ],
+  },
+  resolve: {
+    extensions: ['.ts', '.js'],
+  },
+};
@@ -0,0 +1,76 @@
+import { loadPage, readFixture } from './dom';
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import { EXPANDED_ATTRIBUTE, HIDDEN_ATTRIBUTE, hidePost, unhide } from '../src/hide';
+
+// Collapsing a post (hidePost in 'collapse' mode). test/fixtures/collapse.html covers
+// what jsdom cannot: real web components and their shadow DOM.
+describe('hidePost in collapse mode', () => {
+    let doc: Document;
+
+    beforeEach(() => {
+        doc = loadPage(readFixture('feed.html'));
+    });
+
+    function article(id: string): HTMLElement {
+        return doc.getElementById(id)!.closest('article')!;
+    }
+
+    it('puts a banner above the article and hides its content in place', () => {
+        const post = doc.getElementById('t3_1feed01')!;
+        assert.equal(hidePost(post, 'blocked subreddit: r/nfl', 'collapse'), true);
+
+        const target = article('t3_1feed01');
+        assert.equal(target.getAttribute(HIDDEN_ATTRIBUTE), 'collapse');
+        const banner = target.firstElementChild as HTMLElement;
+        assert.equal(banner.className, 'reddit-filter-collapse-banner');
+        assert.match(banner.textContent || '', /Post filtered: blocked subreddit: r\/nfl/);
+        assert.equal(post.style.display, 'none');
+        // The post is hidden, never removed or replaced
+        assert.equal(post.isConnected, true);
+        assert.equal(target.contains(post), true);
+    });
+
+    it('hides each post only once', () => {
+        const post = doc.getElementById('t3_1feed02')!;
+        assert.equal(hidePost(post, 'first', 'collapse'), true);
+        assert.equal(hidePost(post, 'second', 'collapse'), false);
+        assert.equal(article('t3_1feed02').querySelectorAll('.reddit-filter-collapse-banner').length, 1);
+    });
+
+    it('shows the post again from the banner and remembers that it was expanded', () => {
+        const post = doc.getElementById('t3_1feed03')!;
+        hidePost(post, 'keyword "spoilers" matched', 'collapse');
+        const target = article('t3_1feed03');
+        const button = target.querySelector('.reddit-filter-collapse-banner button') as HTMLButtonElement;
+
+        button.click();
+        assert.equal(post.style.display, '');
+        assert.equal(target.getAttribute(EXPANDED_ATTRIBUTE), 'true');
+        assert.equal(button.textContent, 'Hide');
+
+        button.click();
+        assert.equal(post.style.display, 'none');
+        assert.equal(target.hasAttribute(EXPANDED_ATTRIBUTE), false);
+    });
+
+    it('leaves posts that are no longer in the page alone', () => {
+        const post = doc.getElementById('t3_1feed04')!;
+        article('t3_1feed04').remove();
+        assert.equal(hidePost(post, 'gone', 'collapse'), false);
+    });
+
+    it('shows a post again when its rule stops applying', () => {
+        const post = doc.getElementById('t3_1feed04')!;
+        hidePost(post, 'keyword "spoilers" matched', 'collapse');
+        const target = article('t3_1feed04');
+
+        assert.equal(unhide(post), true);
+        assert.equal(post.style.display, '');
+        assert.equal(target.querySelector('.reddit-filter-collapse-banner'), null);
+        assert.equal(target.hasAttribute(HIDDEN_ATTRIBUTE), false);
+        // A second call has nothing left to show, and hiding works again afterwards
+        assert.equal(unhide(post), false);
+        assert.equal(hidePost(post, 'again', 'collapse'), true);
+    });
+});
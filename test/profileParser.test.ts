@@ -0,0 +1,99 @@
+import { readFixture } from './dom';
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { unknownProfile } from '../src/accountAge';
+import { accountFiltersActive, accountRemoval, parseProfileSignals } from '../src/accountProfile';
+import { parseAboutJson, parseAccountCreationDate } from '../src/profileParser';
+import { createDefaultSettings } from '../src/settings';
+
+describe('parseAccountCreationDate', () => {
+    it('reads the cake day from the current profile header', () => {
+        const result = parseAccountCreationDate(readFixture('profile-header.html'));
+        assert.deepEqual(result, { createdAt: Date.parse('2019-03-14T09:26:53.000Z'), strategy: 'cakeDayTime' });
+    });
+
+    it('prefers structured data', () => {
+        const html = '<script type="application/ld+json">{"@type":"Person","dateCreated":"2015-01-02T00:00:00Z"}</script>' +
+            readFixture('profile-header.html');
+        assert.deepEqual(parseAccountCreationDate(html), { createdAt: Date.parse('2015-01-02T00:00:00Z'), strategy: 'structuredData' });
+    });
+
+    it('finds a <time> next to a cake day label when the layout moves', () => {
+        const html = '<section><span>Redditor since</span> <time datetime="2012-06-30T00:00:00Z">2012</time></section>';
+        assert.deepEqual(parseAccountCreationDate(html), { createdAt: Date.parse('2012-06-30T00:00:00Z'), strategy: 'cakeDayTime' });
+    });
+
+    it('falls back to the JSON embedded in the page', () => {
+        const result = parseAccountCreationDate(readFixture('profile-embedded-json.html'));
+        assert.deepEqual(result, { createdAt: 1719878400 * 1000, strategy: 'jsonBlob' });
+    });
+
+    it('ignores dates from before Reddit existed', () => {
+        assert.equal(parseAccountCreationDate('<time data-testid="cake-day" datetime="1970-01-01T00:00:00Z"></time>'), null);
+    });
+
+    it('returns null when no strategy finds a date', () => {
+        assert.equal(parseAccountCreationDate('<div><p>Sorry, nobody on Reddit goes by that name.</p></div>'), null);
+    });
+});
+
+describe('parseAboutJson', () => {
+    it('reads the date and the other profile signals', () => {
+        const json = JSON.stringify({
+            kind: 't2',
+            data: { created_utc: 1400000000, link_karma: 5, comment_karma: 10, has_verified_email: false, is_gold: true }
+        });
+        assert.deepEqual(parseAboutJson(json), {
+            createdAt: 1400000000 * 1000,
+            postKarma: 5,
+            commentKarma: 10,
+            verifiedEmail: false,
+            premium: true,
+            state: 'active'
+        });
+    });
+
+    it('returns null for anything but a profile', () => {
+        assert.equal(parseAboutJson('<html></html>'), null);
+        assert.equal(parseAboutJson('{"error": 404}'), null);
+    });
+});
+
+describe('parseProfileSignals', () => {
+    it('reads karma from the stats row', () => {
+        const signals = parseProfileSignals(readFixture('profile-header.html'));
+        assert.equal(signals.postKarma, 1234);
+        assert.equal(signals.commentKarma, 56);
+        assert.equal(signals.state, 'active');
+    });
+
+    it('reads abbreviated karma and embedded flags', () => {
+        const signals = parseProfileSignals(readFixture('profile-embedded-json.html'));
+        assert.equal(signals.postKarma, 12500);
+        assert.equal(signals.commentKarma, null);
+        assert.equal(signals.premium, false);
+        assert.equal(signals.verifiedEmail, null);
+    });
+
+    it('recognizes a suspended account', () => {
+        assert.equal(parseProfileSignals('<p>This account has been suspended</p>').state, 'suspended');
+    });
+});
+
+describe('accountRemoval', () => {
+    const now = Date.UTC(2026, 0, 1);
+    const newAccount = { ...unknownProfile('active'), createdAt: now - 24 * 60 * 60 * 1000, postKarma: 3 };
+
+    it('applies the karma minimum while the age filter is off', () => {
+        const settings = { ...createDefaultSettings(), accountAgeFilterEnabled: false, minPostKarma: 100 };
+        assert.equal(accountFiltersActive(settings), true);
+        assert.equal(accountRemoval('newbie', newAccount, settings, now)?.reason,
+            'low post karma: newbie (3 post karma, minimum: 100)');
+    });
+
+    it('skips the age check while the age filter is off', () => {
+        const settings = { ...createDefaultSettings(), accountAgeFilterEnabled: false };
+        assert.equal(accountFiltersActive(settings), false);
+        assert.equal(accountRemoval('newbie', newAccount, settings, now), null);
+    });
+});
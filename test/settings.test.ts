@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    broadcastChanges,
+    changedSettings,
+    copySettings,
+    createDefaultSettings,
+    parseStoredSettings,
+    SETTINGS_SCHEMA_VERSION
+} from '../src/settings';
+
+describe('changedSettings', () => {
+    it('returns only the fields that differ from the saved copy', () => {
+        const saved = { ...createDefaultSettings(), keywords: ['nfl'] };
+        const current = copySettings(saved);
+        current.keywords.push('nba');
+        current.hideMode = 'blur';
+        assert.deepEqual(changedSettings(saved, current), { keywords: ['nfl', 'nba'], hideMode: 'blur' });
+    });
+
+    it('returns nothing when the settings are unchanged', () => {
+        const saved = createDefaultSettings();
+        assert.deepEqual(changedSettings(saved, copySettings(saved)), {});
+    });
+});
+
+describe('broadcastChanges', () => {
+    it('ignores the echo of the last save and fields still being saved', () => {
+        const saved = { ...createDefaultSettings(), minAccountAge: 24 };
+        assert.deepEqual(broadcastChanges(saved, copySettings(saved), new Map()), []);
+
+        const stale = { ...copySettings(saved), minAccountAge: 20, keywords: ['nba'] };
+        assert.deepEqual(broadcastChanges(saved, stale, new Map([['minAccountAge', 1]])), ['keywords']);
+    });
+});
+
+describe('parseStoredSettings', () => {
+    it('flags settings written by a newer version so they are not written back', () => {
+        const stored = { ...createDefaultSettings(), schemaVersion: SETTINGS_SCHEMA_VERSION + 1, futureField: true };
+        const result = parseStoredSettings(stored);
+        assert.equal(result.newerVersion, SETTINGS_SCHEMA_VERSION + 1);
+        assert.equal(result.migratedFrom, null);
+    });
+
+    it('does not flag settings of the current version', () => {
+        assert.equal(parseStoredSettings(createDefaultSettings()).newerVersion, null);
+    });
+});
@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ACCOUNT_AGE_RULE, reconcileRuleStats, RuleHitStats } from '../src/stats';
+
+describe('reconcileRuleStats', () => {
+    const now = Date.UTC(2026, 0, 1);
+
+    it('stamps added rules and forgets removed ones', () => {
+        const stats: RuleHitStats = { 'keyword:nfl': { hits: 4, lastHit: now - 1000 } };
+        const changed = reconcileRuleStats(stats, ['keyword:nfl'], ['subreddit:r/nba'], now);
+        assert.equal(changed, true);
+        assert.deepEqual(stats, { 'subreddit:r/nba': { hits: 0, lastHit: 0, addedAt: now } });
+    });
+
+    it('keeps the stats of built-in filters that were switched off', () => {
+        const stats: RuleHitStats = { [ACCOUNT_AGE_RULE]: { hits: 2, lastHit: now - 1000 } };
+        assert.equal(reconcileRuleStats(stats, [ACCOUNT_AGE_RULE], [], now), false);
+        assert.equal(stats[ACCOUNT_AGE_RULE].hits, 2);
+    });
+});
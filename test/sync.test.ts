@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createDefaultSettings } from '../src/settings';
+import {
+    chunkDocument,
+    chunkKey,
+    documentToSettings,
+    mergeDocuments,
+    readRemoteDocument,
+    stampDocument,
+    SYNC_MANIFEST_KEY
+} from '../src/sync';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('sync', () => {
+    it('prefers the synced document when sync is enabled on a fresh device', () => {
+        const start = Date.UTC(2026, 0, 1);
+
+        // The first device synced its rules and options, then removed a rule
+        const first = { ...createDefaultSettings(), keywords: ['nfl', 'nba'], minAccountAge: 12 };
+        const synced = stampDocument(first, null, start);
+        const remote = stampDocument({ ...first, keywords: ['nba'] }, synced, start + HOUR);
+
+        // A fresh device still has the defaults, its own keyword and the removed one
+        const fresh = { ...createDefaultSettings(), keywords: ['nfl', 'weather'] };
+        const local = stampDocument(fresh, null, start + 2 * HOUR);
+        const settings = documentToSettings(mergeDocuments(local, remote), fresh);
+
+        assert.deepEqual(settings.keywords.sort(), ['nba', 'weather']);
+        assert.equal(settings.minAccountAge, 12);
+    });
+
+    it('lets later local edits win over the synced document', () => {
+        const start = Date.UTC(2026, 0, 1);
+        const remote = stampDocument({ ...createDefaultSettings(), minAccountAge: 12 }, null, start);
+
+        const synced = documentToSettings(remote, createDefaultSettings());
+        const local = stampDocument({ ...synced, minAccountAge: 3 }, remote, start + HOUR);
+
+        assert.equal(documentToSettings(mergeDocuments(local, remote), synced).minAccountAge, 3);
+    });
+
+    it('reads a manifest with a missing chunk as unreadable, not missing', () => {
+        const keywords = Array.from({ length: 800 }, (_, i) => `keyword${i}`);
+        const doc = stampDocument({ ...createDefaultSettings(), keywords }, null, 0);
+        const chunks = chunkDocument(doc);
+        assert.ok(chunks.length > 1);
+
+        const items: Record<string, unknown> = {
+            [SYNC_MANIFEST_KEY]: { chunks: chunks.length, updatedAt: 0, deviceId: 'other' }
+        };
+        chunks.forEach((chunk, index) => {
+            items[chunkKey(index)] = chunk;
+        });
+        assert.deepEqual(readRemoteDocument(items), { status: 'found', doc });
+
+        delete items[chunkKey(chunks.length - 1)];
+        assert.deepEqual(readRemoteDocument(items), { status: 'unreadable' });
+        assert.deepEqual(readRemoteDocument({}), { status: 'missing' });
+    });
+});
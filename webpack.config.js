@@ -9,6 +9,7 @@ const distPath = path.resolve(__dirname, 'dist', targetBrowser);
 module.exports = {
   entry: {
     index: './src/index.ts',
+    background: './src/background.ts',
     popup: './src/popup/popup.ts',
     options: './src/options/options.ts',
   },